@@ -1,19 +1,33 @@
-import { Chunk, Config } from './types.js';
+import { Chunk, ChunkingStrategy, Config } from './types.js';
+import { HeuristicTokenizer, Tokenizer } from './tokenizer.js';
+import { MarkdownBlock, parseMarkdown, splitListItems, splitSentences } from './markdown.js';
+
+/**
+ * Part of a Markdown block that fits in maxTokens.
+ */
+interface MarkdownPiece {
+  text: string;
+  headings: string[];
+  prose: boolean;  // Paragraph text, whose last words can overlap into the next chunk
+}
 
 export class SmartChunker {
   private maxTokens: number;
   private overlap: number;
   private minSize: number;
+  private strategy: ChunkingStrategy;
+  private tokenizer: Tokenizer;
 
-  constructor(config: Config['chunking']) {
+  constructor(config: Config['chunking'], tokenizer: Tokenizer = new HeuristicTokenizer()) {
     this.maxTokens = config.maxTokens;
     this.overlap = config.overlapTokens;
     this.minSize = config.minChunkSize;
+    this.strategy = config.strategy ?? 'paragraph';
+    this.tokenizer = tokenizer;
   }
 
   private estimateTokens(text: string): number {
-    // Approximation: 1 token ≈ 4 characters
-    return Math.ceil(text.length / 4);
+    return this.tokenizer.countTokens(text);
   }
 
   chunk(content: string): Chunk[] {
@@ -24,6 +38,10 @@ export class SmartChunker {
       return [{ content: trimmed, index: 0, total: 1 }];
     }
 
+    if (this.strategy === 'markdown') {
+      return this.chunkMarkdown(trimmed);
+    }
+
     const chunks: string[] = [];
 
     // Try to split by paragraphs first
@@ -73,6 +91,154 @@ export class SmartChunker {
     }));
   }
 
+  /**
+   * Markdown strategy: chunks are packed from whole blocks, and a block is
+   * only cut when it alone exceeds maxTokens - code between lines (fence
+   * repeated), tables between rows (header repeated), lists between items,
+   * paragraphs between sentences. A new section starts a new chunk once the
+   * current one reaches minChunkSize. Headings are not part of the content:
+   * each chunk carries the breadcrumb of its section, or the sections' common
+   * parent when it spans several.
+   */
+  private chunkMarkdown(content: string): Chunk[] {
+    const pieces = parseMarkdown(content).flatMap(block => this.splitBlock(block));
+    if (pieces.length === 0) {
+      return [{ content, index: 0, total: 1 }];
+    }
+
+    const chunks: Array<{ content: string; headings: string[] }> = [];
+    let current: MarkdownPiece[] = [];
+
+    const flush = () => {
+      if (current.length === 0) return;
+      chunks.push({
+        content: current.map(p => p.text).join('\n\n'),
+        headings: current.slice(1).reduce((common, p) => commonPrefix(common, p.headings), current[0].headings)
+      });
+      current = [];
+    };
+
+    for (const piece of pieces) {
+      if (current.length > 0) {
+        const text = current.map(p => p.text).join('\n\n');
+        const last = current[current.length - 1];
+        const newSection = !sameHeadings(last.headings, piece.headings);
+
+        if (newSection && this.estimateTokens(text) >= this.minSize) {
+          flush();
+        } else if (this.estimateTokens(text + '\n\n' + piece.text) > this.maxTokens) {
+          flush();
+          // Overlap only continues prose of the same section
+          const overlapText = !newSection && last.prose ? this.getOverlap(last.text) : '';
+          if (overlapText && this.estimateTokens(overlapText + piece.text) <= this.maxTokens) {
+            current.push({ text: overlapText.trimEnd(), headings: piece.headings, prose: true });
+          }
+        }
+      }
+      current.push(piece);
+    }
+    flush();
+
+    // A chunk below minChunkSize joins the previous one when they fit together
+    const merged: typeof chunks = [];
+    for (const chunk of chunks) {
+      const previous = merged[merged.length - 1];
+      const combined = previous ? previous.content + '\n\n' + chunk.content : '';
+      if (previous
+          && Math.min(this.estimateTokens(previous.content), this.estimateTokens(chunk.content)) < this.minSize
+          && this.estimateTokens(combined) <= this.maxTokens) {
+        merged[merged.length - 1] = { content: combined, headings: commonPrefix(previous.headings, chunk.headings) };
+      } else {
+        merged.push(chunk);
+      }
+    }
+
+    // Only headings were over the limit: a single memory keeps them in its content
+    if (merged.length === 1) {
+      return [{ content, index: 0, total: 1 }];
+    }
+
+    return merged.map((c, i) => ({
+      content: c.content,
+      index: i,
+      total: merged.length,
+      headings: c.headings
+    }));
+  }
+
+  /**
+   * A Markdown block as pieces of at most maxTokens (a single line, row or
+   * sentence can still exceed it).
+   */
+  private splitBlock(block: MarkdownBlock): MarkdownPiece[] {
+    const { text, headings } = block;
+    const piece = (content: string, prose: boolean = false) => ({ text: content, headings, prose });
+
+    if (this.estimateTokens(text) <= this.maxTokens) {
+      return [piece(text, block.type === 'paragraph')];
+    }
+
+    switch (block.type) {
+      case 'code': {
+        const lines = text.split('\n');
+        const open = lines[0];
+        const fence = open.trim().match(/^(`{3,}|~{3,})/)![1];
+        const closed = lines.length > 1 && lines[lines.length - 1].trim().startsWith(fence);
+        const body = lines.slice(1, closed ? -1 : undefined);
+        const close = closed ? lines[lines.length - 1] : fence;
+        return this.pack(body, '\n', part => `${open}\n${part}\n${close}`).map(p => piece(p));
+      }
+      case 'table': {
+        const [header, delimiter, ...rows] = text.split('\n');
+        return this.pack(rows, '\n', part => `${header}\n${delimiter}\n${part}`).map(p => piece(p));
+      }
+      case 'list': {
+        // As many whole items per piece as fit, an oversized item by sentences
+        const pieces: MarkdownPiece[] = [];
+        let items: string[] = [];
+        const flushItems = () => {
+          pieces.push(...this.pack(items, '\n').map(p => piece(p)));
+          items = [];
+        };
+
+        for (const item of splitListItems(text)) {
+          if (this.estimateTokens(item) > this.maxTokens) {
+            flushItems();
+            pieces.push(...this.pack(splitSentences(item), ' ').map(p => piece(p, true)));
+          } else {
+            items.push(item);
+          }
+        }
+        flushItems();
+        return pieces;
+      }
+      case 'paragraph':
+        return this.pack(splitSentences(text), ' ').map(p => piece(p, true));
+    }
+  }
+
+  /**
+   * Greedily join units with separator while wrap(joined) fits in maxTokens.
+   */
+  private pack(units: string[], separator: string, wrap: (text: string) => string = text => text): string[] {
+    const packed: string[] = [];
+    let current = '';
+
+    for (const unit of units) {
+      const combined = current ? current + separator + unit : unit;
+      if (current && this.estimateTokens(wrap(combined)) > this.maxTokens) {
+        packed.push(wrap(current));
+        current = unit;
+      } else {
+        current = combined;
+      }
+    }
+    if (current) {
+      packed.push(wrap(current));
+    }
+    return packed;
+  }
+
   private chunkBySentences(text: string): string[] {
     const sentences = text.split(/(?<=[.!?])\s+/);
     const chunks: string[] = [];
@@ -97,17 +263,22 @@ export class SmartChunker {
     return chunks;
   }
 
+  /**
+   * The last whole words of text that fit in overlapTokens.
+   */
   private getOverlap(text: string): string {
-    if (!text) return '';
+    if (!text || this.overlap <= 0) return '';
 
-    const words = text.split(/\s+/);
-    const overlapWords = Math.floor(this.overlap / 2); // ~2 chars per word avg
+    const words = text.split(/\s+/).filter(Boolean);
+    let start = words.length;
+    while (start > 0 && this.estimateTokens(words.slice(start - 1).join(' ')) <= this.overlap) {
+      start--;
+    }
 
-    if (words.length <= overlapWords) {
+    if (start === 0) {
       return text + '\n\n';
     }
-
-    return words.slice(-overlapWords).join(' ') + '\n\n';
+    return start < words.length ? words.slice(start).join(' ') + '\n\n' : '';
   }
 
   private mergeSmallChunks(chunks: string[]): string[] {
@@ -147,3 +318,13 @@ export class SmartChunker {
     return merged;
   }
 }
+
+function sameHeadings(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((heading, i) => heading === b[i]);
+}
+
+function commonPrefix(a: string[], b: string[]): string[] {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) length++;
+  return a.slice(0, length);
+}
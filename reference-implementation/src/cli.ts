@@ -1,7 +1,27 @@
 #!/usr/bin/env node
 
+import { createInterface } from 'readline/promises';
 import { MemoryManager } from './memory-manager.js';
-import { MemoryType } from './types.js';
+import {
+  Memory,
+  MemoryType,
+  MemorySource,
+  MemoryInput,
+  RecallMode,
+  ChunkExpansion,
+  RecallOptions,
+  RecallExplanation,
+  MemoryRelation,
+  MEMORY_RELATIONS,
+  MemoryGraph,
+  Contradiction,
+  ContradictionAction,
+  RememberOutcome,
+  ChunkingStrategy,
+  CHUNKING_STRATEGIES
+} from './types.js';
+
+const CONTRADICTION_ACTIONS: ContradictionAction[] = ['supersede', 'flag', 'ignore'];
 
 const HELP = `
 🧠 claude-memory - Persistent vector memory for Claude Code
@@ -19,10 +39,27 @@ MEMORY COMMANDS
     --reasoning=<why>      Explanation for decisions
     --category=<tag>       Category tag
     --project=<name>       Force project (auto-detected by default)
+    --on-conflict=<action> supersede | flag | ignore when it contradicts a decision/preference
+                           (default: contradiction.action, 'prompt' asks in a terminal)
 
-  recall <query>           Semantic search in memories
+  recall <query>           Search memories (semantic + keyword)
     --limit=<n>            Max results (default: 7)
     --type=<type>          Filter by type
+    --mode=<mode>          hybrid | semantic | lexical (default: hybrid)
+    --tag=<t1,t2>          Only memories with any of these tags (--all-tags: all of them)
+    --category=<tag>       Filter by category
+    --source=<source>      Filter by source (manual, auto:commit, ...)
+    --project=<name>       Only this project's memories
+    --global               Only global memories
+    --since=<date>         Created on/after: YYYY-MM-DD or relative (7d, 2w, 3m, 1y)
+    --until=<date>         Created before: same formats
+    --min-confidence=<0-1> Minimum confidence
+    --profile=<name>       Scoring profile: default | debugging | exploration | custom
+    --diversity=<0-1>      MMR lambda: lower favors varied results over near-duplicates
+    --explain              Show the score breakdown and dropped candidates
+    --peek                 Don't update access stats (read-only lookup)
+    --linked               Also show memories linked to the hits
+    --expand=<how>         For chunk hits: neighbors | document (default: recall.expandChunks)
     --json                 Output as JSON
 
   list [n]                 List n recent memories (default: 10)
@@ -36,10 +73,25 @@ MEMORY COMMANDS
     --include-obsolete     Include obsolete memories
 
   forget <id>              Permanently delete a memory
+    --group                All chunks of the memory's document
   forget:category <cat>    Delete all memories in a category
   forget:source <source>   Delete by source (auto:ingest, auto:commit, etc.)
   obsolete <id>            Mark as outdated (excluded from recall)
+    --group                All chunks of the memory's document
+  pin <id>                 Always inject this memory in sessions (bare 'pin' lists them)
+  unpin <id>               Stop always injecting it
   update <id> <content>    Update memory content
+    --group                Replace the memory's whole document (re-chunked)
+  link <a> <b>             Link memory a to memory b
+    --rel=<relation>       relates-to | contradicts | depends-on | derived-from (default: relates-to)
+  unlink <a> <b>           Remove links from a to b (--rel=<relation> for one only)
+  graph <id>               Show linked memories as a tree
+    --depth=<n>            Hops to follow (default: 2)
+  conflicts                Show unresolved contradicting memories
+    --project=<name>       Specific project only
+    --global               Global memories only
+  history <id>             Show the edit timeline of a memory
+  revert <id> --to=<v>     Roll a memory back to version v (0 = before first recorded change)
 
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 PROJECT COMMANDS
@@ -62,6 +114,9 @@ INGEST COMMANDS
     --importance=<1-5>     Priority level (default: 2)
     --dry-run              Preview what would be ingested
 
+  chunking:compare <path>  Chunk files with each strategy and compare the chunks (nothing stored)
+    --strategies=<s1,s2>   paragraph | markdown | semantic (default: all)
+
   Accepts: file, directory (recursive), or glob pattern
   Supported: .md, .mdx, .txt, .rst, .adoc
 
@@ -75,8 +130,9 @@ INGEST COMMANDS
 MAINTENANCE COMMANDS
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-  status                   Check MLX server & system status
-  stats                    Memory statistics
+  status                   Check embedding provider & system status
+  stats                    Memory statistics (and embedding cache hit rate)
+  cache:clear              Empty the embedding cache
   gc                       Clean old unused memories
     --all                  All projects + global
     --consolidate          Merge near-duplicate memories
@@ -84,6 +140,10 @@ MAINTENANCE COMMANDS
     --dry-run              Preview without changes
   log [n]                  Show last n hook logs (default: 20)
     --clear                Clear the log file
+  migrate                  Apply pending database schema migrations
+    --dry-run              List pending migrations without applying
+  reindex                  Re-embed all memories with the configured model (resumable)
+    --batch=<n>            Texts per embedding request (default: 32)
 
   help                     Show this help
 
@@ -134,7 +194,8 @@ async function main() {
   }
 
   const command = args[0];
-  const manager = new MemoryManager();
+  const manager = new MemoryManager({ actor: 'cli' });
+  process.on('exit', () => manager.close());
 
   // Parse flags
   const flags: Record<string, string | boolean> = {};
@@ -159,7 +220,7 @@ async function main() {
           process.exit(1);
         }
 
-        const ids = await manager.remember({
+        const input: MemoryInput = {
           content,
           type: (flags.type as MemoryType) || 'fact',
           importance: flags.importance ? parseInt(flags.importance as string) : 3,
@@ -167,9 +228,52 @@ async function main() {
           reasoning: flags.reasoning as string,
           project: flags.project as string,
           source: 'manual'
-        });
+        };
+
+        let onContradiction = flags['on-conflict'] as ContradictionAction | undefined;
+        if (onContradiction && !CONTRADICTION_ACTIONS.includes(onContradiction)) {
+          console.error(`Error: --on-conflict must be one of: ${CONTRADICTION_ACTIONS.join(', ')}`);
+          process.exit(1);
+        }
+
+        // 'prompt': ask before writing when someone is at the terminal
+        if (!onContradiction && manager.getContradictionConfig().action === 'prompt' && process.stdin.isTTY) {
+          const found = await manager.findContradictions(input);
+          if (found.length > 0) {
+            onContradiction = await askContradictionAction(found);
+          }
+        }
 
-        console.log(`Stored ${ids.length} memory chunk(s): ${ids.join(', ')}`);
+        const report = await manager.rememberWithReport({ ...input, onContradiction });
+
+        console.log(`Stored ${report.ids.length} memory chunk(s): ${report.ids.join(', ')}`);
+        for (const c of report.contradictions) {
+          const outcome = c.action === 'supersede' ? 'marked obsolete'
+            : c.action === 'flag' ? 'both flagged as conflicting'
+            : 'kept both';
+          console.log(`⚠️  Contradicts #${c.memory.id} (${c.reason}): ${outcome}`);
+          console.log(`   ${c.memory.content.slice(0, 100)}`);
+        }
+        break;
+      }
+
+      case 'conflicts': {
+        const project = flags.global ? null : (flags.project as string) ?? undefined;
+        const conflicts = await manager.getConflicts(project);
+
+        if (flags.json) {
+          console.log(JSON.stringify(conflicts, null, 2));
+        } else if (conflicts.length === 0) {
+          console.log('No unresolved conflicts.');
+        } else {
+          for (const c of conflicts) {
+            const projectLabel = c.a.project ? `📁 ${c.a.project}` : '🌍 global';
+            console.log(`\n${projectLabel} (since ${new Date(c.since * 1000).toISOString().slice(0, 10)})`);
+            console.log(`   #${c.a.id} [${c.a.type}] ${c.a.content.slice(0, 100)}`);
+            console.log(`   #${c.b.id} [${c.b.type}] ${c.b.content.slice(0, 100)}`);
+          }
+          console.log(`\n${conflicts.length} conflict(s). Resolve with: cmem obsolete <id>`);
+        }
         break;
       }
 
@@ -180,10 +284,49 @@ async function main() {
           process.exit(1);
         }
 
-        const results = await manager.recall(query, {
+        const expandChunks = flags.expand as ChunkExpansion | undefined;
+        if (expandChunks && !['none', 'neighbors', 'document'].includes(expandChunks)) {
+          console.error('Error: --expand must be none, neighbors or document');
+          process.exit(1);
+        }
+
+        const mode = flags.mode as RecallMode | undefined;
+        if (mode && !['hybrid', 'semantic', 'lexical'].includes(mode)) {
+          console.error('Error: --mode must be hybrid, semantic or lexical');
+          process.exit(1);
+        }
+
+        const recallOptions: RecallOptions = {
           limit: flags.limit ? parseInt(flags.limit as string) : undefined,
-          type: flags.type as MemoryType
-        });
+          type: flags.type as MemoryType,
+          mode,
+          tags: typeof flags.tag === 'string' ? flags.tag.split(',').map(t => t.trim()).filter(Boolean) : undefined,
+          tagMatch: flags['all-tags'] === true ? 'all' : 'any',
+          category: flags.category as string | undefined,
+          source: flags.source as MemorySource | undefined,
+          project: typeof flags.project === 'string' ? flags.project : undefined,
+          globalOnly: flags.global === true,
+          createdAfter: typeof flags.since === 'string' ? parseDateFlag('since', flags.since) : undefined,
+          createdBefore: typeof flags.until === 'string' ? parseDateFlag('until', flags.until) : undefined,
+          minConfidence: flags['min-confidence'] ? parseFloat(flags['min-confidence'] as string) : undefined,
+          profile: typeof flags.profile === 'string' ? flags.profile : undefined,
+          diversity: flags.diversity ? parseFloat(flags.diversity as string) : undefined,
+          includeLinked: flags.linked === true ? true : undefined,
+          expandChunks,
+          trackAccess: flags.peek !== true
+        };
+
+        if (flags.explain) {
+          const explained = await manager.explainRecall(query, recallOptions);
+          if (flags.json) {
+            console.log(JSON.stringify(explained, null, 2));
+          } else {
+            printExplanation(explained);
+          }
+          break;
+        }
+
+        const results = await manager.recall(query, recallOptions);
 
         if (flags.json) {
           console.log(JSON.stringify(results, null, 2));
@@ -193,8 +336,13 @@ async function main() {
           } else {
             for (const r of results) {
               const projectLabel = r.source ? `📁 ${r.source}` : '🌍 global';
-              console.log(`\n${projectLabel} [${r.memory.type}] #${r.memory.id} (score: ${r.score.toFixed(3)})`);
-              console.log(`   ${r.memory.content}`);
+              const linkLabel = r.linkedFrom ? ` ↳ ${r.linkedFrom.relation} #${r.linkedFrom.memoryId}` : '';
+              const pinLabel = r.memory.pinned ? ' 📌' : '';
+              console.log(`\n${projectLabel} [${r.memory.type}] #${r.memory.id} (score: ${r.score.toFixed(3)})${pinLabel}${chunkLabel(r.memory)}${linkLabel}`);
+              if (r.chunks && r.chunks.length > 1) {
+                console.log(`   🧩 chunks ${r.chunks.map(c => `#${c.id}`).join(', ')}`);
+              }
+              console.log(`   ${r.expandedContent ?? r.memory.content}`);
               if (r.memory.reasoning) {
                 console.log(`   💭 ${r.memory.reasoning}`);
               }
@@ -231,7 +379,7 @@ async function main() {
           for (const m of memories) {
             const date = new Date(m.createdAt * 1000).toLocaleDateString();
             const projectLabel = m.project ? `[${m.project}]` : '[global]';
-            console.log(`#${m.id} ${projectLabel} [${m.type}] ${date} (imp: ${m.importance})`);
+            console.log(`#${m.id} ${projectLabel} [${m.type}] ${date} (imp: ${m.importance})${m.pinned ? ' 📌' : ''}${chunkLabel(m)}`);
             console.log(`   ${m.content}`);
             if (m.reasoning) {
               console.log(`   💭 ${m.reasoning}`);
@@ -349,6 +497,12 @@ async function main() {
           process.exit(1);
         }
 
+        if (flags.group) {
+          const count = await manager.forgetGroup(id);
+          console.log(`Deleted ${count} chunk(s) of the document of memory #${id}.`);
+          break;
+        }
+
         const project = flags.project as string ?? manager.detectProject();
         await manager.forget(id, project);
         console.log(`Memory #${id} deleted.`);
@@ -407,12 +561,50 @@ async function main() {
           process.exit(1);
         }
 
+        if (flags.group) {
+          const count = await manager.markGroupObsolete(id);
+          console.log(`Marked ${count} chunk(s) of the document of memory #${id} as obsolete.`);
+          break;
+        }
+
         const project = flags.project as string ?? manager.detectProject();
         await manager.markObsolete(id, project);
         console.log(`Memory #${id} marked as obsolete.`);
         break;
       }
 
+      case 'pin':
+      case 'unpin': {
+        const id = parseInt(positional[0]);
+
+        // Bare 'pin': show what the recall hook injects here
+        if (!id && command === 'pin') {
+          const pinned = await manager.getPinned(manager.detectProject());
+          if (pinned.length === 0) {
+            console.log('No pinned memories.');
+          }
+          for (const m of pinned) {
+            const projectLabel = m.project ? `[${m.project}]` : '[global]';
+            console.log(`📌 #${m.id} ${projectLabel} [${m.type}] ${m.content}`);
+          }
+          break;
+        }
+
+        if (!id) {
+          console.error('Error: Memory ID required');
+          process.exit(1);
+        }
+
+        if (command === 'pin') {
+          await manager.pin(id);
+          console.log(`Memory #${id} pinned.`);
+        } else {
+          await manager.unpin(id);
+          console.log(`Memory #${id} unpinned.`);
+        }
+        break;
+      }
+
       case 'update': {
         const id = parseInt(positional[0]);
         const content = positional.slice(1).join(' ');
@@ -421,12 +613,117 @@ async function main() {
           process.exit(1);
         }
 
+        if (flags.group) {
+          const ids = await manager.updateGroup(id, content);
+          console.log(`Document updated: ${ids.length} chunk(s): ${ids.join(', ')}`);
+          break;
+        }
+
         const project = flags.project as string ?? manager.detectProject();
         await manager.update(id, content, project);
         console.log(`Memory #${id} updated.`);
         break;
       }
 
+      case 'link':
+      case 'unlink': {
+        const sourceId = parseInt(positional[0]);
+        const targetId = parseInt(positional[1]);
+        if (!sourceId || !targetId) {
+          console.error('Error: Two memory IDs required');
+          console.error(`Usage: cmem ${command} <a> <b> --rel=<relation>`);
+          process.exit(1);
+        }
+
+        const relation = flags.rel as MemoryRelation | undefined;
+        if (relation && !MEMORY_RELATIONS.includes(relation)) {
+          console.error(`Error: --rel must be one of: ${MEMORY_RELATIONS.join(', ')}`);
+          process.exit(1);
+        }
+
+        if (command === 'link') {
+          await manager.link(sourceId, targetId, relation ?? 'relates-to');
+          console.log(`Linked #${sourceId} ${relation ?? 'relates-to'} #${targetId}.`);
+        } else {
+          const removed = await manager.unlink(sourceId, targetId, relation);
+          console.log(`Removed ${removed} link(s) from #${sourceId} to #${targetId}.`);
+        }
+        break;
+      }
+
+      case 'graph': {
+        const id = parseInt(positional[0]);
+        if (!id) {
+          console.error('Error: Memory ID required');
+          process.exit(1);
+        }
+
+        const depth = flags.depth ? parseInt(flags.depth as string) : 2;
+        const graph = await manager.getGraph(id, depth);
+
+        if (flags.json) {
+          console.log(JSON.stringify(graph, null, 2));
+        } else {
+          printGraph(graph);
+        }
+        break;
+      }
+
+      case 'history': {
+        const id = parseInt(positional[0]);
+        if (!id) {
+          console.error('Error: Memory ID required');
+          process.exit(1);
+        }
+
+        const history = await manager.getHistory(id);
+
+        if (flags.json) {
+          console.log(JSON.stringify(history, null, 2));
+          break;
+        }
+
+        if (history.length === 0) {
+          console.log(`No history recorded for memory #${id}.`);
+          break;
+        }
+
+        console.log(`\n#${id} - ${history.length} version(s):\n`);
+        for (const h of history) {
+          const date = new Date(h.createdAt * 1000).toISOString().replace('T', ' ').slice(0, 16);
+          console.log(`v${h.version}  ${date}  ${h.action} by ${h.actor}`);
+
+          if (h.oldContent !== h.newContent) {
+            if (h.oldContent !== null) console.log(`   - ${h.oldContent.replace(/\n/g, '\n     ')}`);
+            if (h.newContent !== null) console.log(`   + ${h.newContent.replace(/\n/g, '\n     ')}`);
+          }
+
+          if (h.oldFields && h.newFields) {
+            for (const [field, value] of Object.entries(h.newFields)) {
+              if (JSON.stringify(h.oldFields[field]) !== JSON.stringify(value)) {
+                console.log(`   ${field}: ${JSON.stringify(h.oldFields[field])} → ${JSON.stringify(value)}`);
+              }
+            }
+          }
+          console.log();
+        }
+        break;
+      }
+
+      case 'revert': {
+        const id = parseInt(positional[0]);
+        const version = flags.to !== undefined ? parseInt(flags.to as string) : NaN;
+        if (!id || isNaN(version)) {
+          console.error('Error: Memory ID and --to=<version> required');
+          console.error('Usage: cmem revert <id> --to=<version>');
+          process.exit(1);
+        }
+
+        await manager.revert(id, version);
+        console.log(`Memory #${id} reverted to version ${version}.`);
+        break;
+      }
+
       case 'gc': {
         const dryRun = flags['dry-run'] === true;
 
@@ -515,6 +812,16 @@ async function main() {
             console.log(`  ${proj}: ${count}`);
           }
         }
+
+        const cache = manager.getEmbeddingCacheStats();
+        const hitRate = cache.hitRate === null ? 'no lookups yet' : `${(cache.hitRate * 100).toFixed(0)}% hit rate (${cache.hits} hits, ${cache.misses} misses)`;
+        console.log(`\nEmbedding cache: ${cache.entries}/${cache.maxEntries} entries, ${hitRate} since ${new Date(cache.since * 1000).toISOString().slice(0, 10)}`);
+        break;
+      }
+
+      case 'cache:clear': {
+        const removed = manager.clearEmbeddingCache();
+        console.log(`Cleared ${removed} cached embedding(s).`);
         break;
       }
 
@@ -545,9 +852,12 @@ async function main() {
         } else {
           console.log('\nRegistered projects:\n');
           for (const { name, info } of projects) {
-            console.log(`${name}`);
+            console.log(`${name}${info.autoRegistered ? ' (auto-registered)' : ''}`);
             console.log(`  Description: ${info.description}`);
             console.log(`  Paths: ${info.paths.join(', ')}`);
+            if (info.remotes && info.remotes.length > 0) {
+              console.log(`  Remotes: ${info.remotes.join(', ')}`);
+            }
             console.log();
           }
         }
@@ -583,14 +893,75 @@ async function main() {
       case 'status': {
         console.log('\nClaude Memory Status\n');
 
-        const mlxReady = await manager.isReady();
-        console.log(`MLX Server: ${mlxReady ? '✅ Ready' : '❌ Not available (run: ~/.claude/cmem/mlx-server/start.sh)'}`);
+        const provider = manager.getEmbeddingProvider();
+        const embedderReady = await manager.isReady();
+        const degraded = await manager.isDegraded();
+        const startHint = provider === 'mlx' ? ' (run: ~/.claude/cmem/mlx-server/start.sh)' : '';
+        console.log(`Embeddings (${provider}): ${degraded ? `⚠️ Not available, using the offline fallback${startHint}` : embedderReady ? '✅ Ready' : `❌ Not available${startHint}`}`);
+
+        const tokenizer = manager.getTokenizer();
+        console.log(`Tokenizer: ${tokenizer.name === 'heuristic' ? '~4 characters per token (no tokenizer file found)' : `${tokenizer.name} (${tokenizer.source})`}`);
 
         const project = manager.detectProject();
         console.log(`Current project: ${project || '(none detected)'}`);
 
         const registry = manager.getProjectRegistry();
         console.log(`Registered projects: ${registry.listProjects().length}`);
+
+        const index = await manager.getIndexStatus();
+        console.log(`Embedding index: ${index.mismatch ? `⚠️ out of date (${index.mismatch}) - run: cmem reindex` : `✅ ${index.configModel} (${index.configDimensions}d)`}`);
+        if (index.fallback > 0) {
+          console.log(`Offline embeddings: ${index.fallback} memories embedded by the fallback - run: cmem reindex`);
+        }
+        if (index.pendingReindex) {
+          console.log(`Interrupted reindex: ${index.pendingReindex.done}/${index.pendingReindex.total} done - run: cmem reindex`);
+        }
+        break;
+      }
+
+      case 'reindex': {
+        const before = await manager.getIndexStatus();
+        const batchSize = flags.batch ? parseInt(flags.batch as string) : undefined;
+
+        console.log(`\nRe-embedding with ${before.configModel} (${before.configDimensions}d)...\n`);
+        const report = await manager.reindex({
+          batchSize,
+          onProgress: (done, total) => {
+            if (process.stdout.isTTY) {
+              process.stdout.write(`\r  ${progressBar(done, total)}`);
+            }
+          }
+        });
+        if (process.stdout.isTTY && report.embedded > 0) {
+          process.stdout.write('\n');
+        }
+
+        console.log(`\n✅ ${report.total} memories indexed with ${report.model} (${report.dimensions}d)`);
+        if (report.resumed > 0) {
+          console.log(`   ${report.resumed} from the interrupted run, ${report.embedded} embedded now`);
+        }
+        break;
+      }
+
+      case 'migrate': {
+        const dryRun = flags['dry-run'] === true;
+        const report = await manager.migrate(dryRun);
+
+        if (report.applied.length === 0) {
+          console.log(`Schema is up to date (v${report.fromVersion}).`);
+          break;
+        }
+
+        console.log(`\nSchema v${report.fromVersion} → v${report.toVersion}\n`);
+        for (const m of report.applied) {
+          console.log(`  ${dryRun ? '○' : '✅'} v${m.version}: ${m.description}`);
+        }
+
+        if (dryRun) {
+          console.log(`\n💡 Dry run - ${report.applied.length} migration(s) pending. Remove --dry-run to apply.`);
+        } else if (report.backupPath) {
+          console.log(`\nBackup: ${report.backupPath}`);
+        }
         break;
       }
 
@@ -639,71 +1010,27 @@ async function main() {
           process.exit(1);
         }
 
-        const { globSync } = await import('glob');
-        const { readFileSync, statSync, existsSync } = await import('fs');
-        const { basename, extname, resolve } = await import('path');
-
-        const supportedExts = ['.md', '.txt', '.rst', '.adoc', '.mdx'];
-        let files: string[] = [];
+        const { readFileSync } = await import('fs');
+        const { basename } = await import('path');
 
-        // Detect if target is a directory, file, or glob
-        if (existsSync(target)) {
-          const stats = statSync(target);
-
-          if (stats.isDirectory()) {
-            // Recursive directory scan
-            const patterns = supportedExts.map(ext => `${target}/**/*${ext}`);
-            for (const pattern of patterns) {
-              files.push(...globSync(pattern, { nodir: true }));
-            }
-            console.log(`\n📁 Scanning directory: ${resolve(target)}`);
-          } else if (stats.isFile()) {
-            // Single file
-            files = [target];
-          }
-        } else {
-          // Treat as glob pattern
-          files = globSync(target, { nodir: true });
-        }
-
-        // Filter to supported extensions only
-        files = files.filter(f => supportedExts.includes(extname(f).toLowerCase()));
-
-        if (files.length === 0) {
-          console.error(`No supported files found. Supported: ${supportedExts.join(', ')}`);
-          process.exit(1);
-        }
-
-        // Sort for consistent ordering
-        files.sort();
+        const files = await findDocuments(target);
 
         console.log(`\n📚 Ingesting ${files.length} file(s)...\n`);
 
-        let totalChunks = 0;
         let totalSections = 0;
         const category = (flags.category as string) || 'documentation';
         const importance = flags.importance ? parseInt(flags.importance as string) : 2;
         const dryRun = flags['dry-run'] === true;
+        const inputs: MemoryInput[] = [];
+        const fileSections: Array<{ relativePath: string; sections: number }> = [];
 
         for (const file of files) {
-          const ext = extname(file).toLowerCase();
           const content = readFileSync(file, 'utf-8');
           const fileName = basename(file);
 
           // Get relative path for context
           const relativePath = file.replace(process.cwd() + '/', '');
-
-          // Split by headers for markdown-like files
-          let sections: { title: string; content: string }[] = [];
-
-          if (['.md', '.mdx'].includes(ext)) {
-            sections = splitMarkdownByHeaders(content);
-          } else {
-            sections = [{ title: '', content }];
-          }
-
-          // Filter out tiny sections
-          sections = sections.filter(s => s.content.trim().length >= 50);
+          const sections = ingestSections(relativePath, content, manager.getChunkingStrategy());
 
           if (dryRun) {
             console.log(`📄 ${relativePath} → ${sections.length} section(s)`);
@@ -712,41 +1039,113 @@ async function main() {
           }
 
           for (const section of sections) {
-            // Prefix with file path for context during recall
-            const contextHeader = section.title
-              ? `[${relativePath} > ${section.title}]`
-              : `[${relativePath}]`;
-
-            const prefixedContent = `${contextHeader}\n\n${section.content}`;
-
-            const ids = await manager.remember({
-              content: prefixedContent,
+            inputs.push({
+              content: section.content,
               type: 'fact',
               category,
               source: 'auto:ingest',
               importance,
               confidence: 0.95,
-              tags: [fileName, 'ingested', category]
+              tags: [fileName, 'ingested', category],
+              headings: section.headings
             });
-
-            totalChunks += ids.length;
           }
 
           totalSections += sections.length;
-          console.log(`✅ ${relativePath} → ${sections.length} section(s)`);
+          fileSections.push({ relativePath, sections: sections.length });
+        }
+
+        // All sections in one go: embedded in batches, stored in one transaction
+        const results = dryRun ? [] : await manager.rememberMany(inputs, {
+          onProgress: (done, total) => {
+            if (process.stdout.isTTY) {
+              process.stdout.write(`\r  Embedding ${progressBar(done, total)}`);
+            }
+          }
+        });
+        if (process.stdout.isTTY && inputs.length > 0 && !dryRun) {
+          process.stdout.write('\n\n');
+        }
+
+        let resultIndex = 0;
+        for (const { relativePath, sections } of fileSections) {
+          const chunks = results.slice(resultIndex, resultIndex + sections).reduce((sum, r) => sum + r.ids.length, 0);
+          resultIndex += sections;
+          console.log(`✅ ${relativePath} → ${sections} section(s), ${chunks} chunk(s)`);
         }
 
+        const outcomes = results.flatMap(r => r.outcomes);
+        const count = (outcome: RememberOutcome) => outcomes.filter(o => o === outcome).length;
+
         console.log(`\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
         console.log(`📊 Files processed: ${files.length}`);
         console.log(`📊 Sections found:  ${totalSections}`);
         if (!dryRun) {
-          console.log(`📊 Memory chunks:   ${totalChunks}`);
+          console.log(`📊 Memory chunks:   ${outcomes.length} (${count('inserted')} new, ${count('merged')} merged, ${count('skipped')} unchanged duplicates)`);
         } else {
           console.log(`\n💡 Dry run - no memories created. Remove --dry-run to ingest.`);
         }
         break;
       }
 
+      case 'chunking:compare': {
+        const target = positional[0];
+        if (!target) {
+          console.error('Error: File, directory, or glob pattern required');
+          console.error('Usage: cmem chunking:compare <path> [--strategies=paragraph,markdown,semantic]');
+          process.exit(1);
+        }
+
+        const strategies = flags.strategies
+          ? (flags.strategies as string).split(',').map(s => s.trim()) as ChunkingStrategy[]
+          : CHUNKING_STRATEGIES;
+        const unknown = strategies.filter(s => !CHUNKING_STRATEGIES.includes(s));
+        if (unknown.length > 0) {
+          console.error(`Error: --strategies must be among: ${CHUNKING_STRATEGIES.join(', ')}`);
+          process.exit(1);
+        }
+
+        if (!(await manager.isReady())) {
+          console.error(`Error: Embedding provider (${manager.getEmbeddingProvider()}) not available`);
+          process.exit(1);
+        }
+        if (await manager.isDegraded()) {
+          console.log(`⚠️ Embedding provider (${manager.getEmbeddingProvider()}) not available, measuring with the offline fallback`);
+        }
+
+        const { readFileSync } = await import('fs');
+        const files = await findDocuments(target);
+        const documents = files.map(file => ({
+          relativePath: file.replace(process.cwd() + '/', ''),
+          content: readFileSync(file, 'utf-8')
+        }));
+
+        // Each strategy gets what ingest would store with it
+        console.log(`\n🔬 Chunking ${files.length} file(s) with each strategy (${manager.getTokenizer().name} token counts)...\n`);
+        const reports = await manager.compareChunkingStrategies(
+          strategy => documents.flatMap(d => ingestSections(d.relativePath, d.content, strategy).map(s => s.content)),
+          strategies
+        );
+
+        const num = (value: number | null) => value === null ? '-' : value.toFixed(3);
+        printTable(
+          ['strategy', 'chunks', 'avg tokens', 'max tokens', 'over limit', 'cohesion', 'separation'],
+          reports.map(r => [
+            r.strategy + (r.strategy === manager.getChunkingStrategy() ? ' *' : ''),
+            String(r.chunks),
+            r.avgTokens.toFixed(0),
+            String(r.maxTokens),
+            String(r.overLimit),
+            num(r.cohesion),
+            num(r.separation)
+          ])
+        );
+        console.log('\n* configured strategy (chunking.strategy)');
+        console.log('Cohesion: similarity of each chunk\'s sentences to the chunk (higher: one topic per chunk).');
+        console.log('Separation: dissimilarity of consecutive chunks (higher: cuts at topic changes).');
+        break;
+      }
+
       default:
         console.error(`Unknown command: ${command}`);
         console.log('Use "claude-memory help" for usage.');
@@ -758,6 +1157,200 @@ async function main() {
   }
 }
 
+// Helper function for --since/--until: YYYY-MM-DD (or any Date string) or
+// a relative age like 7d, 2w, 3m, 1y. Returns a Unix timestamp.
+function parseDateFlag(name: string, value: string): number {
+  const relative = value.match(/^(\d+)([dwmy])$/);
+  if (relative) {
+    const days = { d: 1, w: 7, m: 30, y: 365 }[relative[2] as 'd' | 'w' | 'm' | 'y'];
+    return Math.floor(Date.now() / 1000) - parseInt(relative[1]) * days * 86400;
+  }
+
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    console.error(`Error: --${name} must be a date (YYYY-MM-DD) or an age like 7d, 2w, 3m, 1y`);
+    process.exit(1);
+  }
+  return Math.floor(time / 1000);
+}
+
+// Helper function for the remember prompt when contradiction.action is 'prompt'
+async function askContradictionAction(found: Contradiction[]): Promise<ContradictionAction> {
+  console.log('\n⚠️  This contradicts existing memories:');
+  for (const c of found) {
+    console.log(`   #${c.memory.id} [${c.memory.type}] ${c.memory.content.slice(0, 100)}`);
+    console.log(`      ${c.reason}`);
+  }
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = (await rl.question('\n[s]upersede them, [f]lag as conflicting, [k]eep both? (f) ')).trim().toLowerCase();
+    if (answer.startsWith('s')) return 'supersede';
+    if (answer.startsWith('k')) return 'ignore';
+    return 'flag';
+  } finally {
+    rl.close();
+  }
+}
+
+// Helper function for recall --explain: one row per result with its score
+// factors, then the candidates that were dropped
+function printExplanation(explained: RecallExplanation): void {
+  const num = (n: number | null | undefined, digits = 2) => n === null || n === undefined || !Number.isFinite(n) ? '-' : n.toFixed(digits);
+  const snippet = (content: string) => content.replace(/\n/g, ' ').slice(0, 40);
+
+  console.log(`\nResults (${explained.results.length}):\n`);
+  printTable(
+    ['id', 'bucket', 'dist', 'sem', 'lex', 'relev', 'recen', 'imp', 'acc', 'conf', 'type', 'proj', 'score', 'redund', 'content'],
+    explained.results.map(r => {
+      const e = r.explanation;
+      if (!e) {
+        // Linked results are not scored, they get half their parent's score
+        return [`#${r.memory.id}`, r.bucket, num(r.distance, 1), '', '', '', '', '', '', '', '', '', num(r.score, 3), '', snippet(r.memory.content)];
+      }
+      const f = e.factors;
+      return [
+        `#${r.memory.id}`, r.bucket, num(e.distance, 1) + (e.threshold === 'keyword-match' ? '*' : ''),
+        num(e.semanticRank, 0), num(e.lexicalRank, 0), num(f.relevance, 3), num(f.recency), num(f.importance),
+        num(f.access), num(f.confidence), num(f.type), num(f.projectBoost), num(r.score, 3), num(e.redundancy), snippet(r.memory.content)
+      ];
+    })
+  );
+  if (explained.results.some(r => r.explanation?.threshold === 'keyword-match')) {
+    console.log('\n* beyond distanceThreshold, kept for its keyword match');
+  }
+
+  console.log(`\nDropped (${explained.dropped.length}):\n`);
+  if (explained.dropped.length > 0) {
+    printTable(
+      ['id', 'bucket', 'reason', 'dist', 'score', 'redund', 'content'],
+      explained.dropped.map(d => [
+        `#${d.memory.id}`, d.bucket, d.reason, num(d.distance, 1), num(d.score, 3), num(d.explanation?.redundancy), snippet(d.memory.content)
+      ])
+    );
+  }
+}
+
+// e.g. "[██████░░░░░░░░░░░░░░] 120/400"
+function progressBar(done: number, total: number, width: number = 20): string {
+  const filled = total === 0 ? width : Math.round(width * done / total);
+  return `[${'█'.repeat(filled)}${'░'.repeat(width - filled)}] ${done}/${total}`;
+}
+
+// Position of a chunk in its document, e.g. " 🧩 2/5 of #40 › Setup › Install"
+function chunkLabel(memory: Memory): string {
+  const section = memory.headings?.length ? ` › ${memory.headings.join(' › ')}` : '';
+  if (memory.groupId === undefined || memory.chunkIndex === undefined) return section;
+  return ` 🧩 ${memory.chunkIndex + 1}/${memory.chunkTotal} of #${memory.groupId}${section}`;
+}
+
+// Helper function for aligned columns (last column left unpadded)
+function printTable(header: string[], rows: string[][]): void {
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)));
+  const format = (cells: string[]) => cells
+    .map((c, i) => i === cells.length - 1 ? c : c.padEnd(widths[i]))
+    .join('  ');
+
+  console.log(format(header));
+  for (const row of rows) {
+    console.log(format(row));
+  }
+}
+
+// Helper function for graph output: tree from the root, each memory shown once
+function printGraph(graph: MemoryGraph): void {
+  const nodes = new Map(graph.nodes.map(n => [n.id, n]));
+  const label = (id: number) => {
+    const m = nodes.get(id)!;
+    const content = m.content.replace(/\n/g, ' ');
+    return `#${id} [${m.type}] ${content.slice(0, 70)}${content.length > 70 ? '...' : ''}${m.isObsolete ? ' (obsolete)' : ''}`;
+  };
+
+  const visited = new Set<number>([graph.root]);
+  console.log(`\n${label(graph.root)}`);
+
+  const walk = (id: number, indent: string) => {
+    const edges = graph.links.filter(l => (l.sourceId === id || l.targetId === id) && nodes.has(l.sourceId) && nodes.has(l.targetId));
+    const children = edges
+      .map(l => ({ link: l, other: l.sourceId === id ? l.targetId : l.sourceId }))
+      .filter(c => !visited.has(c.other));
+    for (const c of children) visited.add(c.other);
+
+    children.forEach((c, i) => {
+      const last = i === children.length - 1;
+      const arrow = c.link.sourceId === id ? `─${c.link.relation}→` : `←${c.link.relation}─`;
+      console.log(`${indent}${last ? '└' : '├'}${arrow} ${label(c.other)}`);
+      walk(c.other, indent + (last ? '   ' : '│  '));
+    });
+  };
+
+  walk(graph.root, '');
+
+  if (graph.links.length === 0) {
+    console.log('(no links)');
+  }
+}
+
+const DOCUMENT_EXTENSIONS = ['.md', '.txt', '.rst', '.adoc', '.mdx'];
+
+// Documentation files of a file, directory (recursive) or glob pattern, sorted.
+// Exits when there are none.
+async function findDocuments(target: string): Promise<string[]> {
+  const { globSync } = await import('glob');
+  const { statSync, existsSync } = await import('fs');
+  const { extname, resolve } = await import('path');
+
+  let files: string[] = [];
+
+  // Detect if target is a directory, file, or glob
+  if (existsSync(target)) {
+    const stats = statSync(target);
+
+    if (stats.isDirectory()) {
+      // Recursive directory scan
+      const patterns = DOCUMENT_EXTENSIONS.map(ext => `${target}/**/*${ext}`);
+      for (const pattern of patterns) {
+        files.push(...globSync(pattern, { nodir: true }));
+      }
+      console.log(`\n📁 Scanning directory: ${resolve(target)}`);
+    } else if (stats.isFile()) {
+      // Single file
+      files = [target];
+    }
+  } else {
+    // Treat as glob pattern
+    files = globSync(target, { nodir: true });
+  }
+
+  // Filter to supported extensions only
+  files = files.filter(f => DOCUMENT_EXTENSIONS.includes(extname(f).toLowerCase()));
+
+  if (files.length === 0) {
+    console.error(`No supported files found. Supported: ${DOCUMENT_EXTENSIONS.join(', ')}`);
+    process.exit(1);
+  }
+
+  // Sort for consistent ordering
+  return files.sort();
+}
+
+// The texts ingest stores for a file, before chunking: one per #-### section
+// of Markdown, prefixed with [path > title] for context during recall. The
+// markdown strategy takes the whole file and keeps headings as chunk
+// metadata, under the file path. Tiny sections are left out.
+function ingestSections(relativePath: string, content: string, strategy: ChunkingStrategy): Array<{ content: string; headings?: string[] }> {
+  const markdown = /\.mdx?$/i.test(relativePath);
+
+  if (markdown && strategy === 'markdown') {
+    return content.trim().length >= 50 ? [{ content, headings: [relativePath] }] : [];
+  }
+
+  const sections = markdown ? splitMarkdownByHeaders(content) : [{ title: '', content }];
+  return sections
+    .filter(s => s.content.trim().length >= 50)
+    .map(s => ({ content: `[${s.title ? `${relativePath} > ${s.title}` : relativePath}]\n\n${s.content}` }));
+}
+
 // Helper function for markdown parsing
 function splitMarkdownByHeaders(content: string): { title: string; content: string }[] {
   const lines = content.split('\n');
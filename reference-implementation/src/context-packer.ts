@@ -0,0 +1,152 @@
+/**
+ * Context packer - fits recalled memories into the token budget the recall
+ * hook may inject (recall.injectionBudgetTokens).
+ */
+
+import { Memory, RecallResult } from './types.js';
+import { HeuristicTokenizer, Tokenizer } from './tokenizer.js';
+
+export interface PackedMemory {
+  result: RecallResult;
+  content: string;       // Possibly trimmed
+  reasoning?: string;    // Dropped when trimmed
+  tokens: number;        // Of the formatted entry (formatMemory), labels included
+  trimmed: boolean;
+}
+
+export interface PackResult {
+  packed: PackedMemory[];
+  usedTokens: number;
+  budgetTokens: number;
+  trimmed: number[];     // Memory IDs shortened to fit
+  cut: number[];         // Memory IDs left out
+}
+
+// Below this, what is left of the budget isn't worth a memory
+const MIN_USEFUL_TOKENS = 20;
+
+// Each extra memory of an already packed type counts this much less
+const TYPE_REPEAT_PENALTY = 0.85;
+
+/**
+ * A memory as the recall hook injects it: project and type label, content,
+ * then Section, Reason and conflict lines when they apply. Budgets are
+ * counted on this text.
+ */
+export function formatMemory(memory: Memory, content: string, reasoning: string | undefined): string {
+  const projectLabel = memory.project ? `📁 ${memory.project}` : '🌍 global';
+  const typeLabel = memory.type.charAt(0).toUpperCase() + memory.type.slice(1);
+  const lines = [`- [${projectLabel}] (${typeLabel}) ${content}`];
+
+  if (memory.headings?.length) {
+    lines.push(`  Section: ${memory.headings.join(' > ')}`);
+  }
+  if (reasoning) {
+    lines.push(`  Reason: ${reasoning}`);
+  }
+  if (memory.isConflicting) {
+    lines.push('  ⚠️ Conflicts with another stored memory - confirm with the user before relying on it');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Fits recalled memories into a token budget for injection.
+ * Picks by score with a penalty for repeated types, trims long memories
+ * to their first sentences, and stops once the budget is spent.
+ */
+export class ContextPacker {
+  private budgetTokens: number;
+  private maxMemoryTokens: number;
+  private tokenizer: Tokenizer;
+
+  constructor(budgetTokens: number, tokenizer: Tokenizer = new HeuristicTokenizer()) {
+    this.budgetTokens = budgetTokens;
+    // One memory never takes more than a third of the budget
+    this.maxMemoryTokens = Math.max(MIN_USEFUL_TOKENS, Math.floor(budgetTokens / 3));
+    this.tokenizer = tokenizer;
+  }
+
+  pack(results: RecallResult[]): PackResult {
+    const remaining = [...results];
+    const typeCounts = new Map<string, number>();
+    const packed: PackedMemory[] = [];
+    const trimmed: number[] = [];
+    const cut: number[] = [];
+    let budget = this.budgetTokens;
+
+    while (remaining.length > 0) {
+      if (budget < MIN_USEFUL_TOKENS) {
+        cut.push(...remaining.map(r => r.memory.id));
+        break;
+      }
+
+      // Best score after the diversity penalty
+      let bestIndex = 0;
+      let bestScore = -Infinity;
+      remaining.forEach((r, i) => {
+        const adjusted = r.score * Math.pow(TYPE_REPEAT_PENALTY, typeCounts.get(r.memory.type) ?? 0);
+        if (adjusted > bestScore) {
+          bestScore = adjusted;
+          bestIndex = i;
+        }
+      });
+      const [result] = remaining.splice(bestIndex, 1);
+
+      const entry = this.fit(result, Math.min(budget, this.maxMemoryTokens));
+      packed.push(entry);
+      if (entry.trimmed) trimmed.push(result.memory.id);
+      budget -= entry.tokens;
+      typeCounts.set(result.memory.type, (typeCounts.get(result.memory.type) ?? 0) + 1);
+    }
+
+    return {
+      packed,
+      usedTokens: this.budgetTokens - budget,
+      budgetTokens: this.budgetTokens,
+      trimmed,
+      cut
+    };
+  }
+
+  /**
+   * The memory (or its expanded chunks) as is if it fits in maxTokens, else
+   * its content trimmed to whole sentences (hard cut for one long sentence),
+   * without reasoning.
+   */
+  private fit(result: RecallResult, maxTokens: number): PackedMemory {
+    const content = result.expandedContent ?? result.memory.content;
+    const { reasoning } = result.memory;
+    const count = (text: string, withReasoning?: string) =>
+      this.tokenizer.countTokens(formatMemory(result.memory, text, withReasoning));
+    const fullTokens = count(content, reasoning);
+
+    if (fullTokens <= maxTokens) {
+      return { result, content, reasoning, tokens: fullTokens, trimmed: false };
+    }
+
+    const fits = (text: string) => count(text.trimEnd() + '…') <= maxTokens;
+
+    // Longest prefix that fits, for the hard cut
+    let low = 0;
+    let high = content.length;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (fits(content.slice(0, mid))) low = mid; else high = mid - 1;
+    }
+    const hardCut = content.slice(0, low);
+
+    const sentences = content.match(/[^.!?\n]+[.!?]*\s*/g) ?? [content];
+    let shortened = '';
+    for (const sentence of sentences) {
+      if (!fits(shortened + sentence)) break;
+      shortened += sentence;
+    }
+    if (shortened.trim().length < hardCut.length / 2) {
+      shortened = hardCut;
+    }
+    shortened = shortened.trimEnd() + '…';
+
+    return { result, content: shortened, tokens: count(shortened), trimmed: true };
+  }
+}
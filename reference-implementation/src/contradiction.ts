@@ -0,0 +1,189 @@
+/**
+ * Contradiction judges - decide whether a new decision/preference says the
+ * opposite of a semantically close existing one ("use pnpm" vs "use npm").
+ *
+ * HeuristicJudge: negation, antonym and single-value-substitution rules.
+ * LLMJudge: asks a local Ollama-compatible model, falls back to the heuristics.
+ */
+
+import { fetchWithTimeout } from './mlx-embedder.js';
+import { Config } from './types.js';
+
+export interface ContradictionVerdict {
+  contradicts: boolean;
+  reason: string;
+}
+
+export interface ContradictionJudge {
+  readonly name: string;
+  /**
+   * deadline: epoch ms past which a slow judge answers with the heuristics.
+   */
+  judge(newContent: string, existingContent: string, deadline?: number): Promise<ContradictionVerdict>;
+}
+
+export interface LLMJudgeConfig {
+  baseUrl: string;
+  model: string;
+  timeoutMs?: number;
+}
+
+// "no" and "plus" are handled by isNegated: they only negate in some positions
+const NEGATIONS = new Set([
+  'not', 'never', "don't", 'dont', "doesn't", "shouldn't", "won't", 'avoid', 'without', 'stop',
+  'ne', 'pas', 'jamais', 'sans', 'éviter', 'eviter', 'aucun', 'aucune'
+]);
+
+const ANTONYMS: Array<[string, string]> = [
+  ['enable', 'disable'], ['enabled', 'disabled'], ['always', 'never'], ['use', 'avoid'],
+  ['prefer', 'avoid'], ['allow', 'forbid'], ['allow', 'deny'], ['include', 'exclude'],
+  ['add', 'remove'], ['true', 'false'], ['on', 'off'], ['yes', 'no'], ['sync', 'async'],
+  ['tabs', 'spaces'], ['before', 'after'], ['increase', 'decrease'], ['more', 'less'],
+  ['activer', 'désactiver'], ['toujours', 'jamais'], ['utiliser', 'éviter'], ['autoriser', 'interdire']
+];
+
+// Words after which a differing token is a choice ("use X", "prefer X")
+const CHOICE_WORDS = new Set([
+  'use', 'uses', 'using', 'prefer', 'prefers', 'choose', 'chose', 'pick', 'switch', 'is', 'are', 'be',
+  'with', 'via', 'to', '=', 'utiliser', 'utilise', 'préférer', 'préfère', 'choisir', 'est', 'avec'
+]);
+
+const STOPWORDS = new Set([
+  'the', 'a', 'an', 'for', 'in', 'of', 'to', 'and', 'or', 'we', 'our', 'this', 'that', 'it',
+  'le', 'la', 'les', 'un', 'une', 'de', 'du', 'des', 'pour', 'en', 'et', 'ou', 'nous', 'on'
+]);
+
+function tokenize(text: string): string[] {
+  // French elisions are split off: "n'utilise" -> "n", "utilise"
+  const normalized = text.toLowerCase().replace(/’/g, "'").replace(/\b(n|l|d|j|m|t|s|c|qu)'/g, '$1 ');
+  return normalized.match(/[\p{L}\p{N}_](?:[\p{L}\p{N}_.'-]*[\p{L}\p{N}_])?/gu) ?? [];
+}
+
+/**
+ * A statement opening with "no" ("No semicolons"), or a French "ne/n' ...
+ * plus" ("on n'utilise plus Redux"), is negated; "npm plus pnpm" is not.
+ */
+function isNegated(tokens: string[]): boolean {
+  return tokens.some((t, i) => NEGATIONS.has(t)
+    || (t === 'no' && i === 0)
+    || (t === 'plus' && tokens.slice(Math.max(0, i - 3), i).some(p => p === 'ne' || p === 'n')));
+}
+
+function contentWords(tokens: string[]): Set<string> {
+  return new Set(tokens.filter(t => !STOPWORDS.has(t)));
+}
+
+function overlapRatio(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const t of a) if (b.has(t)) shared++;
+  return shared / Math.min(a.size, b.size);
+}
+
+function without(set: Set<string>, remove: Iterable<string>): Set<string> {
+  const result = new Set(set);
+  for (const t of remove) result.delete(t);
+  return result;
+}
+
+export class HeuristicJudge implements ContradictionJudge {
+  readonly name = 'heuristic';
+
+  async judge(newContent: string, existingContent: string): Promise<ContradictionVerdict> {
+    const seqA = tokenize(newContent);
+    const seqB = tokenize(existingContent);
+    const wordsA = contentWords(seqA);
+    const wordsB = contentWords(seqB);
+
+    // 1. Same statement, one side negated
+    const negated = [...NEGATIONS, 'no', 'plus'];
+    if (isNegated(seqA) !== isNegated(seqB) && overlapRatio(without(wordsA, negated), without(wordsB, negated)) >= 0.6) {
+      return { contradicts: true, reason: 'one statement negates the other' };
+    }
+
+    // 2. Same statement with opposite words, looked up before stopword
+    // filtering ("on" is a French stopword but half of on/off)
+    const allA = new Set(seqA);
+    const allB = new Set(seqB);
+    for (const [x, y] of ANTONYMS) {
+      const flipped = (allA.has(x) && allB.has(y) && !allA.has(y) && !allB.has(x))
+        || (allA.has(y) && allB.has(x) && !allA.has(x) && !allB.has(y));
+      if (flipped && overlapRatio(without(wordsA, [x, y]), without(wordsB, [x, y])) >= 0.5) {
+        return { contradicts: true, reason: `opposite terms: ${x} / ${y}` };
+      }
+    }
+
+    // 3. Same sentence with one value swapped ("use pnpm" vs "use npm", "limit is 100" vs "200")
+    if (seqA.length === seqB.length && seqA.length >= 2) {
+      const diffs = seqA.map((t, i) => i).filter(i => seqA[i] !== seqB[i]);
+      if (diffs.length === 1) {
+        const i = diffs[0];
+        const isNumber = /^\d/.test(seqA[i]) && /^\d/.test(seqB[i]);
+        if (isNumber || (i > 0 && CHOICE_WORDS.has(seqA[i - 1]))) {
+          return { contradicts: true, reason: `different value: ${seqA[i]} vs ${seqB[i]}` };
+        }
+      }
+    }
+
+    return { contradicts: false, reason: 'no contradiction rule matched' };
+  }
+}
+
+interface GenerateResponse {
+  response: string;
+}
+
+export class LLMJudge implements ContradictionJudge {
+  readonly name = 'llm';
+  private config: LLMJudgeConfig;
+  private fallback = new HeuristicJudge();
+
+  constructor(config: LLMJudgeConfig) {
+    this.config = config;
+  }
+
+  async judge(newContent: string, existingContent: string, deadline?: number): Promise<ContradictionVerdict> {
+    const timeoutMs = Math.min(this.config.timeoutMs ?? 10000, (deadline ?? Infinity) - Date.now());
+    if (timeoutMs <= 0) {
+      const verdict = await this.fallback.judge(newContent, existingContent);
+      return { ...verdict, reason: `${verdict.reason} (llm time budget spent)` };
+    }
+
+    const prompt = `Two statements from a developer's memory store. Do they contradict each other (cannot both be followed)?
+Reply with JSON only: {"contradicts": true/false, "reason": "<10 words"}
+
+A: ${existingContent.slice(0, 1000)}
+B: ${newContent.slice(0, 1000)}`;
+
+    try {
+      // The timeout covers the body too: a stalled answer can't hold up remember
+      const data = await fetchWithTimeout('LLM server', `${this.config.baseUrl}/api/generate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: this.config.model, prompt, format: 'json', stream: false })
+      }, timeoutMs, async response => {
+        if (!response.ok) {
+          throw new Error(`LLM server error: ${response.status}`);
+        }
+        return await response.json() as GenerateResponse;
+      });
+
+      const parsed = JSON.parse(data.response);
+      return {
+        contradicts: Boolean(parsed.contradicts),
+        reason: typeof parsed.reason === 'string' ? parsed.reason : 'llm verdict'
+      };
+    } catch {
+      // LLM down or unparseable: the heuristics are better than nothing
+      const verdict = await this.fallback.judge(newContent, existingContent);
+      return { ...verdict, reason: `${verdict.reason} (llm unavailable)` };
+    }
+  }
+}
+
+export function createJudge(config: NonNullable<Config['contradiction']>): ContradictionJudge {
+  if (config.judge === 'llm' && config.llm) {
+    return new LLMJudge(config.llm);
+  }
+  return new HeuristicJudge();
+}
@@ -0,0 +1,375 @@
+/**
+ * Embedding providers - implementations of Embedder beyond the MLX server,
+ * and the registry that picks one from config.embedding.provider.
+ *
+ * ollama:  Ollama's POST /api/embed
+ * openai:  OpenAI-compatible POST /embeddings (OpenAI, llama.cpp server, vLLM)
+ * command: any executable reading {"texts": [...]} on stdin and writing
+ *          {"embeddings": [[...]]} on stdout
+ * hash:    in-process feature hashing, no server (tests, offline fallback)
+ */
+
+import { spawn } from 'child_process';
+import { Config, EmbeddingProvider } from './types.js';
+import { Embedder, MLXEmbedder, checkEmbeddings, fetchWithTimeout } from './mlx-embedder.js';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const HEALTH_TIMEOUT_MS = 2000;
+
+export interface OllamaEmbedderConfig {
+  baseUrl: string;
+  model: string;
+  dimensions: number;
+  timeoutMs?: number;
+}
+
+export interface OpenAIEmbedderConfig {
+  baseUrl: string;      // Including the /v1 prefix, e.g. http://127.0.0.1:8080/v1
+  model: string;
+  dimensions: number;
+  apiKeyEnv?: string;   // Environment variable holding the API key (default: OPENAI_API_KEY)
+  timeoutMs?: number;
+}
+
+export interface HashEmbedderConfig {
+  dimensions: number;
+}
+
+export interface CommandEmbedderConfig {
+  command: string;
+  args?: string[];
+  dimensions: number;
+  timeoutMs?: number;
+}
+
+interface OllamaEmbedResponse {
+  embeddings: number[][];
+}
+
+interface OllamaTagsResponse {
+  models: Array<{ name: string }>;
+}
+
+export class OllamaEmbedder implements Embedder {
+  private config: OllamaEmbedderConfig;
+
+  constructor(config: OllamaEmbedderConfig) {
+    this.config = config;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const embeddings = await this.embedBatch([text]);
+    return embeddings[0];
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const data = await fetchWithTimeout('Ollama server', `${this.config.baseUrl}/api/embed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: this.config.model, input: texts })
+    }, this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS, async response => {
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`Ollama server error: ${response.status} - ${error}`);
+      }
+      return await response.json() as OllamaEmbedResponse;
+    });
+
+    return checkEmbeddings('Ollama server', data.embeddings, texts.length, this.config.dimensions);
+  }
+
+  /**
+   * Server up and the model pulled.
+   */
+  async isAvailable(): Promise<boolean> {
+    try {
+      const data = await fetchWithTimeout('Ollama server', `${this.config.baseUrl}/api/tags`, {}, HEALTH_TIMEOUT_MS,
+        async response => response.ok ? await response.json() as OllamaTagsResponse : null);
+      if (!data) return false;
+
+      const model = this.config.model.includes(':') ? this.config.model : `${this.config.model}:latest`;
+      return data.models.some(m => m.name === model || m.name === this.config.model);
+    } catch {
+      return false;
+    }
+  }
+
+  getDimensions(): number {
+    return this.config.dimensions;
+  }
+}
+
+interface OpenAIEmbeddingsResponse {
+  data: Array<{ embedding: number[]; index: number }>;
+}
+
+export class OpenAIEmbedder implements Embedder {
+  private config: OpenAIEmbedderConfig;
+
+  constructor(config: OpenAIEmbedderConfig) {
+    this.config = config;
+  }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const apiKey = process.env[this.config.apiKeyEnv ?? 'OPENAI_API_KEY'];
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+    return headers;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const embeddings = await this.embedBatch([text]);
+    return embeddings[0];
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const data = await fetchWithTimeout('Embedding server', `${this.config.baseUrl}/embeddings`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({ model: this.config.model, input: texts })
+    }, this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS, async response => {
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`Embedding server error: ${response.status} - ${error}`);
+      }
+      return await response.json() as OpenAIEmbeddingsResponse;
+    });
+
+    // Entries carry their input index and may come back in any order
+    const embeddings = Array.isArray(data.data)
+      ? [...data.data].sort((a, b) => a.index - b.index).map(d => d.embedding)
+      : undefined;
+    return checkEmbeddings('Embedding server', embeddings, texts.length, this.config.dimensions);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      return await fetchWithTimeout('Embedding server', `${this.config.baseUrl}/models`, {
+        headers: this.headers()
+      }, HEALTH_TIMEOUT_MS, async response => {
+        await response.body?.cancel();
+        return response.ok;
+      });
+    } catch {
+      return false;
+    }
+  }
+
+  getDimensions(): number {
+    return this.config.dimensions;
+  }
+}
+
+export class CommandEmbedder implements Embedder {
+  private config: CommandEmbedderConfig;
+
+  constructor(config: CommandEmbedderConfig) {
+    this.config = config;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const embeddings = await this.embedBatch([text]);
+    return embeddings[0];
+  }
+
+  embedBatch(texts: string[]): Promise<number[][]> {
+    const { command, args = [] } = this.config;
+    const timeoutMs = this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+      const stdout: Buffer[] = [];
+      const stderr: Buffer[] = [];
+
+      // Not spawn's own timeout: it keeps the process alive when the command
+      // fails to start
+      const timeout = setTimeout(() => child.kill(), timeoutMs);
+
+      child.stdout.on('data', chunk => stdout.push(chunk));
+      child.stderr.on('data', chunk => stderr.push(chunk));
+      child.on('error', error => {
+        clearTimeout(timeout);
+        reject(new Error(`Embedding command failed to start (${command}): ${error.message}`));
+      });
+      child.on('close', (code, signal) => {
+        clearTimeout(timeout);
+        if (signal) {
+          reject(new Error(`Embedding command killed (${signal}) after ${timeoutMs}ms: ${command}`));
+          return;
+        }
+        if (code !== 0) {
+          reject(new Error(`Embedding command exited with ${code}: ${Buffer.concat(stderr).toString().trim()}`));
+          return;
+        }
+        let data: { embeddings: number[][] };
+        try {
+          data = JSON.parse(Buffer.concat(stdout).toString());
+        } catch {
+          reject(new Error(`Embedding command output is not {"embeddings": [...]} JSON: ${command}`));
+          return;
+        }
+        try {
+          resolve(checkEmbeddings(`Embedding command (${command})`, data?.embeddings, texts.length, this.config.dimensions));
+        } catch (error) {
+          reject(error);
+        }
+      });
+
+      // A command that exits before reading all of stdin breaks the pipe:
+      // 'close' reports its exit code or output instead
+      child.stdin.on('error', error => {
+        if ((error as NodeJS.ErrnoException).code !== 'EPIPE') {
+          reject(new Error(`Embedding command stdin failed (${command}): ${error.message}`));
+        }
+      });
+      child.stdin.end(JSON.stringify({ texts }));
+    });
+  }
+
+  /**
+   * Embed a probe text and check the vector size.
+   */
+  async isAvailable(): Promise<boolean> {
+    try {
+      await this.embedBatch(['ping']);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  getDimensions(): number {
+    return this.config.dimensions;
+  }
+}
+
+/**
+ * Model name recorded with vectors from the offline fallback, so that they
+ * are kept apart from the provider's and re-embedded by reindex.
+ */
+export const HASH_EMBEDDING_MODEL = 'cmem-hash-v1';
+
+// Whole words weigh more than their character trigrams
+const WORD_WEIGHT = 1;
+const TRIGRAM_WEIGHT = 0.5;
+
+/**
+ * 32-bit FNV-1a.
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic embeddings from hashed words and character trigrams.
+ * Close to a keyword match: shared words and spellings bring texts
+ * together, synonyms don't. Always available.
+ */
+export class HashEmbedder implements Embedder {
+  private config: HashEmbedderConfig;
+
+  constructor(config: HashEmbedderConfig) {
+    this.config = config;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const { dimensions } = this.config;
+    const vector = new Array<number>(dimensions).fill(0);
+
+    const add = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      // Low bits pick the slot, the top bit the sign, so collisions tend to cancel out
+      vector[hash % dimensions] += hash & 0x80000000 ? -weight : weight;
+    };
+
+    // Accents dropped: "café" and "cafe" share their features
+    const words = text.toLowerCase().normalize('NFKD').replace(/\p{M}/gu, '').match(/[\p{L}\p{N}_]+/gu) ?? [];
+    for (const word of words) {
+      add(`w:${word}`, WORD_WEIGHT);
+      const padded = ` ${word} `;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`t:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+      }
+    }
+
+    const norm = Math.hypot(...vector);
+    return norm > 0 ? vector.map(v => v / norm) : vector;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return Promise.all(texts.map(text => this.embed(text)));
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  getDimensions(): number {
+    return this.config.dimensions;
+  }
+}
+
+type EmbeddingConfig = Config['embedding'];
+
+const EMBEDDERS: Record<EmbeddingProvider, (config: EmbeddingConfig) => Embedder> = {
+  mlx: config => new MLXEmbedder({
+    baseUrl: config.baseUrl,
+    dimensions: config.dimensions,
+    timeoutMs: config.timeoutMs,
+    retries: config.retries,
+    maxBatchSize: config.maxBatchSize,
+    circuitBreaker: config.circuitBreaker
+  }),
+  ollama: config => new OllamaEmbedder({
+    baseUrl: config.ollama?.baseUrl ?? 'http://127.0.0.1:11434',
+    model: config.model,
+    dimensions: config.dimensions,
+    timeoutMs: config.ollama?.timeoutMs
+  }),
+  openai: config => {
+    if (!config.openai?.baseUrl) {
+      throw new Error('embedding.provider is "openai" but embedding.openai.baseUrl is not set');
+    }
+    return new OpenAIEmbedder({
+      baseUrl: config.openai.baseUrl,
+      model: config.model,
+      dimensions: config.dimensions,
+      apiKeyEnv: config.openai.apiKeyEnv,
+      timeoutMs: config.openai.timeoutMs
+    });
+  },
+  command: config => {
+    if (!config.command?.command) {
+      throw new Error('embedding.provider is "command" but embedding.command.command is not set');
+    }
+    return new CommandEmbedder({
+      command: config.command.command,
+      args: config.command.args,
+      dimensions: config.dimensions,
+      timeoutMs: config.command.timeoutMs
+    });
+  },
+  hash: config => new HashEmbedder({
+    dimensions: config.dimensions
+  })
+};
+
+export const EMBEDDING_PROVIDERS = Object.keys(EMBEDDERS) as EmbeddingProvider[];
+
+/**
+ * The Embedder for config.embedding.provider.
+ */
+export function createEmbedder(config: EmbeddingConfig): Embedder {
+  const factory = EMBEDDERS[config.provider];
+  if (!factory) {
+    throw new Error(`Unknown embedding provider "${config.provider}". Available: ${EMBEDDING_PROVIDERS.join(', ')}`);
+  }
+  return factory(config);
+}
@@ -0,0 +1,162 @@
+/**
+ * Embedding cache - vectors of already embedded texts, keyed by model and
+ * SHA-256 of the text, so that re-ingested documents, duplicate probes and
+ * repeated queries skip the embedding server. Least recently used entries
+ * are evicted past maxEntries.
+ */
+
+import Database from 'better-sqlite3';
+import { createHash } from 'crypto';
+import { Embedder } from './mlx-embedder.js';
+import { EmbeddingCacheStats } from './types.js';
+
+export const DEFAULT_CACHE_MAX_ENTRIES = 10000;
+
+function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * The embedding_cache table (migration v11), with its hit/miss counters.
+ */
+export class EmbeddingCache {
+  private getDb: () => Database.Database;
+  private maxEntries: number;
+
+  constructor(getDb: () => Database.Database, maxEntries: number = DEFAULT_CACHE_MAX_ENTRIES) {
+    this.getDb = getDb;
+    this.maxEntries = maxEntries;
+  }
+
+  /**
+   * Cached vectors of the texts found, by index into texts. Marks them
+   * as used and counts the hits and misses.
+   */
+  get(model: string, dimensions: number, texts: string[]): Map<number, number[]> {
+    const db = this.getDb();
+    const select = db.prepare('SELECT embedding FROM embedding_cache WHERE model = ? AND text_hash = ? AND dimensions = ?');
+    const touch = db.prepare('UPDATE embedding_cache SET last_used = ? WHERE model = ? AND text_hash = ?');
+    const found = new Map<number, number[]>();
+    const now = Date.now();
+
+    db.transaction(() => {
+      texts.forEach((text, i) => {
+        const hash = hashText(text);
+        const row = select.get(model, hash, dimensions) as { embedding: Buffer } | undefined;
+        if (!row) return;
+
+        const { embedding } = row;
+        found.set(i, Array.from(new Float32Array(embedding.buffer, embedding.byteOffset, embedding.byteLength / 4)));
+        touch.run(now, model, hash);
+      });
+      db.prepare('UPDATE embedding_cache_stats SET hits = hits + ?, misses = misses + ?')
+        .run(found.size, texts.length - found.size);
+    })();
+
+    return found;
+  }
+
+  /**
+   * Store vectors (float32, as in vec_memories), then evict the least
+   * recently used entries past maxEntries.
+   */
+  put(model: string, entries: Array<{ text: string; embedding: number[] }>): void {
+    if (entries.length === 0) return;
+
+    const db = this.getDb();
+    const insert = db.prepare(`
+      INSERT OR REPLACE INTO embedding_cache (model, text_hash, dimensions, embedding, last_used)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    const now = Date.now();
+
+    db.transaction(() => {
+      for (const { text, embedding } of entries) {
+        insert.run(model, hashText(text), embedding.length, Buffer.from(new Float32Array(embedding).buffer), now);
+      }
+
+      const { count } = db.prepare('SELECT COUNT(*) as count FROM embedding_cache').get() as { count: number };
+      if (count > this.maxEntries) {
+        db.prepare(`
+          DELETE FROM embedding_cache WHERE rowid IN (
+            SELECT rowid FROM embedding_cache ORDER BY last_used LIMIT ?
+          )
+        `).run(count - this.maxEntries);
+      }
+    })();
+  }
+
+  stats(): EmbeddingCacheStats {
+    const db = this.getDb();
+    const { entries } = db.prepare('SELECT COUNT(*) as entries FROM embedding_cache').get() as { entries: number };
+    const { hits, misses, since } = db.prepare('SELECT hits, misses, since FROM embedding_cache_stats').get() as {
+      hits: number;
+      misses: number;
+      since: number;
+    };
+    const lookups = hits + misses;
+
+    return {
+      entries,
+      maxEntries: this.maxEntries,
+      hits,
+      misses,
+      hitRate: lookups > 0 ? hits / lookups : null,
+      since
+    };
+  }
+
+  /**
+   * Empty the cache and reset the counters. Returns the entries removed.
+   */
+  clear(): number {
+    const db = this.getDb();
+    return db.transaction((): number => {
+      const removed = db.prepare('DELETE FROM embedding_cache').run().changes;
+      db.prepare('UPDATE embedding_cache_stats SET hits = 0, misses = 0, since = unixepoch()').run();
+      return removed;
+    })();
+  }
+}
+
+/**
+ * Embedder decorator: texts found in the cache are not sent to the wrapped
+ * embedder, the others are embedded in one batch and cached.
+ */
+export class CachedEmbedder implements Embedder {
+  private inner: Embedder;
+  private cache: EmbeddingCache;
+  private model: string;
+
+  constructor(inner: Embedder, cache: EmbeddingCache, model: string) {
+    this.inner = inner;
+    this.cache = cache;
+    this.model = model;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const embeddings = await this.embedBatch([text]);
+    return embeddings[0];
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const cached = this.cache.get(this.model, this.inner.getDimensions(), texts);
+    const missing = texts.map((text, i) => ({ text, i })).filter(({ i }) => !cached.has(i));
+
+    if (missing.length > 0) {
+      const embeddings = await this.inner.embedBatch(missing.map(m => m.text));
+      missing.forEach(({ i }, j) => cached.set(i, embeddings[j]));
+      this.cache.put(this.model, missing.map(({ text }, j) => ({ text, embedding: embeddings[j] })));
+    }
+
+    return texts.map((_, i) => cached.get(i)!);
+  }
+
+  isAvailable(): Promise<boolean> {
+    return this.inner.isAvailable();
+  }
+
+  getDimensions(): number {
+    return this.inner.getDimensions();
+  }
+}
@@ -85,8 +85,9 @@ async function main() {
 
   // Set context for logging
   currentCwd = input.cwd || process.cwd();
-  const manager = new MemoryManager();
-  currentProject = manager.detectProject(currentCwd) || 'unknown';
+  const manager = new MemoryManager({ actor: 'hook:capture-commit' });
+  process.on('exit', () => manager.close());
+  currentProject = manager.detectProject(currentCwd, { register: true }) || 'unknown';
 
   const command = input.tool_input?.command || '';
 
@@ -130,9 +131,12 @@ async function main() {
     // Check if Ollama is available
     const isReady = await manager.isReady();
     if (!isReady) {
-      log('MLX server not available, skipping capture');
+      log(`Embedding provider (${manager.getEmbeddingProvider()}) not available, skipping capture`);
       process.exit(0);
     }
+    if (await manager.isDegraded()) {
+      log(`Embedding provider (${manager.getEmbeddingProvider()}) not available, embedding with the offline fallback`);
+    }
 
     // Determine type from commit prefix
     let type: 'decision' | 'fact' = 'decision';
@@ -107,7 +107,7 @@ ${response.slice(0, 5000)}`;
 
 async function isDuplicate(manager: MemoryManager, content: string): Promise<boolean> {
   try {
-    const results = await manager.recall(content, { limit: 3 });
+    const results = await manager.recall(content, { limit: 3, trackAccess: false });
 
     // Check if any result is very similar
     for (const r of results) {
@@ -218,15 +218,19 @@ async function main() {
 
   currentCwd = input.cwd || process.cwd();
 
-  const manager = new MemoryManager();
-  currentProject = manager.detectProject(currentCwd) || 'global';
+  const manager = new MemoryManager({ actor: 'hook:capture-response' });
+  process.on('exit', () => manager.close());
+  currentProject = manager.detectProject(currentCwd, { register: true }) || 'global';
 
   // Check if Ollama is available
   const isReady = await manager.isReady();
   if (!isReady) {
-    log('MLX server not available, skipping');
+    log(`Embedding provider (${manager.getEmbeddingProvider()}) not available, skipping`);
     process.exit(0);
   }
+  if (await manager.isDegraded()) {
+    log(`Embedding provider (${manager.getEmbeddingProvider()}) not available, embedding with the offline fallback`);
+  }
 
   // Get the last response from transcript
   const response = await getLastResponse(input.transcript_path);
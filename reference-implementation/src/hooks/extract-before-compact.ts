@@ -102,7 +102,7 @@ ${context.slice(0, 8000)}`;
 
 async function isDuplicate(manager: MemoryManager, content: string): Promise<boolean> {
   try {
-    const results = await manager.recall(content, { limit: 3 });
+    const results = await manager.recall(content, { limit: 3, trackAccess: false });
 
     for (const r of results) {
       if (r.distance < 5) {
@@ -203,16 +203,20 @@ async function main() {
 
   currentCwd = input.cwd || process.cwd();
 
-  const manager = new MemoryManager();
-  currentProject = manager.detectProject(currentCwd) || 'global';
+  const manager = new MemoryManager({ actor: 'hook:extract-before-compact' });
+  process.on('exit', () => manager.close());
+  currentProject = manager.detectProject(currentCwd, { register: true }) || 'global';
 
   log('PreCompact triggered - extracting session knowledge');
 
   const isReady = await manager.isReady();
   if (!isReady) {
-    log('MLX server not available, skipping');
+    log(`Embedding provider (${manager.getEmbeddingProvider()}) not available, skipping`);
     process.exit(0);
   }
+  if (await manager.isDegraded()) {
+    log(`Embedding provider (${manager.getEmbeddingProvider()}) not available, embedding with the offline fallback`);
+  }
 
   const context = await getSessionContext(input);
 
@@ -22,7 +22,8 @@ import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
 import { execSync } from 'child_process';
 import { homedir } from 'os';
 import { join, dirname } from 'path';
-import { MemoryType } from '../types.js';
+import { ContextPacker, PackedMemory, formatMemory } from '../context-packer.js';
+import { Memory, MemoryType } from '../types.js';
 
 /**
  * Query intent analysis result from Haiku
@@ -316,9 +317,12 @@ async function main() {
   const inputStr = Buffer.concat(chunks).toString('utf-8').trim();
   earlyLog(`inputStr length: ${inputStr.length}, content: ${inputStr.slice(0, 200)}`);
 
+  // No input or no prompt is not a user prompt: nothing is injected, not
+  // even pinned memories (the project is unknown without a cwd)
   if (!inputStr) {
     earlyLog('Empty input, exiting');
-    process.exit(0);
+    process.exitCode = 0;
+    return;
   }
 
   let query: string;
@@ -339,17 +343,33 @@ async function main() {
 
   if (!query) {
     log('No query provided, skipping');
-    process.exit(0);
+    process.exitCode = 0;
+    return;
   }
 
-  const manager = new MemoryManager();
-  currentProject = manager.detectProject(currentCwd) || 'global';
+  const manager = new MemoryManager({ actor: 'hook:recall' });
+  process.on('exit', () => manager.close());
+  const detectedProject = manager.detectProject(currentCwd, { register: true });
+  currentProject = detectedProject || 'global';
 
-  // Check if MLX is available
+  // Pinned memories go in every session and need no embedding
+  let pinned: Memory[] = [];
+  try {
+    pinned = await manager.getPinned(detectedProject);
+  } catch (error) {
+    log(`Pinned lookup failed: ${error}`);
+  }
+
+  // Check if the embedding provider is available
   const isReady = await manager.isReady();
   if (!isReady) {
-    log('MLX server not available, skipping');
-    process.exit(0);
+    log(`Embedding provider (${manager.getEmbeddingProvider()}) not available, skipping`);
+    printMemoryContext(pinned, []);
+    process.exitCode = 0;
+    return;
+  }
+  if (await manager.isDegraded()) {
+    log(`Embedding provider (${manager.getEmbeddingProvider()}) not available, recalling with the offline fallback`);
   }
 
   // ============================================
@@ -411,7 +431,7 @@ async function main() {
   log(`Searching: "${finalQuery.slice(0, 80)}..."`);
 
   try {
-    const results = await manager.recall(finalQuery, { limit: recallLimit });
+    const results = await manager.recall(finalQuery, { limit: recallLimit, excludePinned: true });
 
     // Filter out malformed memories (JSON artifacts, too short, etc.)
     const validResults = results.filter(r => {
@@ -433,32 +453,51 @@ async function main() {
 
     if (validResults.length === 0) {
       log('No valid memories found');
-      process.exit(0);
+      printMemoryContext(pinned, []);
+      process.exitCode = 0;
+      return;
     }
 
-    log(`Found ${validResults.length} memories (filtered from ${results.length})`, true);
+    log(`Found ${validResults.length} memories (filtered from ${results.length}), ${pinned.length} pinned`, true);
 
-    // Format output for injection
-    console.log('<memory-context>');
-    console.log('Relevant memories from previous sessions:');
+    // Keep the recalled section within recall.injectionBudgetTokens
+    const packing = new ContextPacker(manager.getInjectionBudgetTokens(), manager.getTokenizer()).pack(validResults);
+    log(`Injected ${packing.usedTokens}/${packing.budgetTokens} tokens` +
+      (packing.trimmed.length > 0 ? `, trimmed #${packing.trimmed.join(', #')}` : '') +
+      (packing.cut.length > 0 ? `, cut #${packing.cut.join(', #')}` : ''));
 
-    for (const r of validResults) {
-      const projectLabel = r.source ? `📁 ${r.source}` : '🌍 global';
-      const typeLabel = r.memory.type.charAt(0).toUpperCase() + r.memory.type.slice(1);
-      console.log(`- [${projectLabel}] (${typeLabel}) ${r.memory.content}`);
-
-      if (r.memory.reasoning) {
-        console.log(`  Reason: ${r.memory.reasoning}`);
-      }
-    }
-
-    console.log('</memory-context>');
+    printMemoryContext(pinned, packing.packed);
 
   } catch (error) {
     const errMsg = error instanceof Error ? error.message : String(error);
     log(`Error: ${errMsg}`);
-    process.exit(0);
+    printMemoryContext(pinned, []);
+    process.exitCode = 0;
+    return;
   }
 }
 
+/**
+ * Format output for injection: pinned memories first, then the recalled ones.
+ * Prints nothing when both are empty.
+ */
+function printMemoryContext(pinned: Memory[], results: PackedMemory[]): void {
+  if (pinned.length === 0 && results.length === 0) return;
+
+  console.log('<memory-context>');
+
+  if (pinned.length > 0) {
+    console.log('Pinned memories (always apply):');
+    pinned.forEach(memory => console.log(formatMemory(memory, memory.content, memory.reasoning)));
+  }
+
+  if (results.length > 0) {
+    if (pinned.length > 0) console.log('');
+    console.log('Relevant memories from previous sessions:');
+    results.forEach(p => console.log(formatMemory(p.result.memory, p.content, p.reasoning)));
+  }
+
+  console.log('</memory-context>');
+}
+
 main();
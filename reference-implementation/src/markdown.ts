@@ -0,0 +1,247 @@
+/**
+ * Markdown structure for the markdown chunking strategy: the blocks a
+ * chunk should not cut (fenced code, tables, lists), the heading
+ * breadcrumb of each, and sentence boundaries that skip abbreviations.
+ */
+
+export type MarkdownBlockType = 'code' | 'table' | 'list' | 'paragraph';
+
+export interface MarkdownBlock {
+  type: MarkdownBlockType;
+  text: string;
+  headings: string[];  // Breadcrumb of the section the block is in, outermost first
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])([ \t]*\1){2,}[ \t]*$/;
+const LIST_ITEM = /^([ \t]*)([-*+]|\d{1,9}[.)])[ \t]+\S/;
+const TABLE_DELIMITER = /^[ \t]*\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+
+function isBlank(line: string | undefined): boolean {
+  return line === undefined || line.trim() === '';
+}
+
+function isListItem(line: string): boolean {
+  return LIST_ITEM.test(line) && !THEMATIC_BREAK.test(line);
+}
+
+function isTableStart(lines: string[], i: number): boolean {
+  return lines[i].includes('|') && i + 1 < lines.length
+    && lines[i + 1].includes('|') && TABLE_DELIMITER.test(lines[i + 1]);
+}
+
+/**
+ * A line that ends a paragraph without a blank line before it.
+ */
+function startsBlock(lines: string[], i: number): boolean {
+  const line = lines[i];
+  return FENCE.test(line) || ATX_HEADING.test(line) || THEMATIC_BREAK.test(line)
+    || isListItem(line) || isTableStart(lines, i);
+}
+
+/**
+ * Index of the line closing the fence opened at lines[start], or the last
+ * line when it is never closed.
+ */
+function closingFence(lines: string[], start: number): number {
+  const fence = lines[start].match(FENCE)![1];
+  const closing = new RegExp(`^ {0,3}${fence[0] === '`' ? '`' : '~'}{${fence.length},}[ \\t]*$`);
+
+  for (let i = start + 1; i < lines.length; i++) {
+    if (closing.test(lines[i])) return i;
+  }
+  return lines.length - 1;
+}
+
+/**
+ * Index of the last line of the list starting at lines[start]: items, their
+ * indented content (fences included) and lazy continuation lines.
+ */
+function listEnd(lines: string[], start: number): number {
+  let end = start;
+  let i = start + 1;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      // A blank line only continues the list before another item or indented content
+      let next = i + 1;
+      while (next < lines.length && isBlank(lines[next])) next++;
+      if (next < lines.length && (isListItem(lines[next]) || /^[ \t]{2,}\S/.test(lines[next]))) {
+        i = next;
+        continue;
+      }
+      break;
+    }
+
+    if (/^[ \t]/.test(line) && FENCE.test(line.trimStart())) {
+      const fence = line.trimStart().match(FENCE)![1];
+      i++;
+      while (i < lines.length && !lines[i].trimStart().startsWith(fence)) i++;
+    } else if (!/^[ \t]/.test(line) && !isListItem(line) && startsBlock(lines, i)) {
+      break;
+    }
+    end = Math.min(i, lines.length - 1);
+    i++;
+  }
+  return end;
+}
+
+function headingText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Split Markdown into blocks, each with the headings it is under. Headings
+ * and thematic breaks are not blocks themselves.
+ */
+export function parseMarkdown(markdown: string): MarkdownBlock[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  const sections: Array<{ level: number; text: string }> = [];
+
+  const push = (type: MarkdownBlockType, from: number, to: number) => {
+    const text = lines.slice(from, to + 1).join('\n').replace(/^\s*\n/, '').trimEnd();
+    if (text) {
+      blocks.push({ type, text, headings: sections.map(s => s.text) });
+    }
+  };
+
+  const enterSection = (level: number, text: string) => {
+    while (sections.length > 0 && sections[sections.length - 1].level >= level) {
+      sections.pop();
+    }
+    if (text) {
+      sections.push({ level, text: headingText(text) });
+    }
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line) || THEMATIC_BREAK.test(line)) {
+      i++;
+      continue;
+    }
+
+    if (FENCE.test(line)) {
+      const end = closingFence(lines, i);
+      push('code', i, end);
+      i = end + 1;
+      continue;
+    }
+
+    const heading = line.match(ATX_HEADING);
+    if (heading) {
+      enterSection(heading[1].length, heading[2] ?? '');
+      i++;
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      let end = i + 1;
+      while (end + 1 < lines.length && !isBlank(lines[end + 1]) && lines[end + 1].includes('|')) end++;
+      push('table', i, end);
+      i = end + 1;
+      continue;
+    }
+
+    if (isListItem(line)) {
+      const end = listEnd(lines, i);
+      push('list', i, end);
+      i = end + 1;
+      continue;
+    }
+
+    // Paragraph, or a setext heading when underlined with === or ---
+    let end = i;
+    let setext: RegExpMatchArray | null = null;
+    while (end + 1 < lines.length && !isBlank(lines[end + 1])) {
+      setext = lines[end + 1].match(SETEXT_UNDERLINE);
+      if (setext || startsBlock(lines, end + 1)) break;
+      end++;
+    }
+
+    if (setext) {
+      enterSection(setext[1][0] === '=' ? 1 : 2, lines.slice(i, end + 1).join(' '));
+      i = end + 2;
+    } else {
+      push('paragraph', i, end);
+      i = end + 1;
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Top-level items of a list block, each with its nested content.
+ */
+export function splitListItems(list: string): string[] {
+  const lines = list.split('\n');
+  const indent = lines[0].match(LIST_ITEM)![1].length;
+  const items: string[][] = [];
+
+  for (const line of lines) {
+    const item = isListItem(line) ? line.match(LIST_ITEM) : null;
+    if (item && item[1].length <= indent) {
+      items.push([line]);
+    } else {
+      items[items.length - 1].push(line);
+    }
+  }
+  return items.map(item => item.join('\n').trimEnd());
+}
+
+// Lowercase, without the final period. A single letter (initial, "M.") is never a sentence end.
+const ABBREVIATIONS = new Set([
+  // English
+  'e.g', 'i.e', 'vs', 'cf', 'al', 'approx', 'incl', 'esp', 'fig', 'figs', 'eq', 'vol', 'ch', 'eds',
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'mt', 'inc', 'ltd', 'co', 'corp', 'dept', 'misc',
+  'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec', 'a.m', 'p.m',
+  'u.s', 'ph.d',
+  // French
+  'mme', 'mmes', 'mlle', 'mlles', 'mm', 'mgr', 'env', 'ex', 'pp', 'art', 'chap', 'c.-à-d', 'c-à-d',
+  'j.-c', 'av', 'resp', 'réf', 'nb', 'n.b', 'n°', 'tél', 'éd', 'hab', 'bd', 'fg', 'janv', 'févr',
+  'avr', 'juil', 'déc', 'cie', 'sté', 'suiv', 'qqch', 'qqn'
+]);
+
+// Terminal punctuation, closing quotes/brackets, then whitespace
+const SENTENCE_END = /[.!?…]+["'’”»)\]]*\s+/g;
+
+/**
+ * Split prose into sentences, English or French: a period after an
+ * abbreviation ("e.g.", "M.", "c.-à-d.") or followed by a lowercase letter
+ * or a digit does not end a sentence, and version numbers ("v1.2.3") never
+ * have whitespace after their inner dots.
+ */
+export function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  let start = 0;
+
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const end = match.index! + match[0].length;
+    const punctuation = match[0].trimEnd().replace(/["'’”»)\]]+$/, '');
+    const next = text.slice(end, end + 1);
+    if (!next) break;
+
+    if (punctuation === '.') {
+      const word = text.slice(start, match.index).match(/(\S+)$/)?.[1].replace(/^[("'“«[]+/, '').toLowerCase() ?? '';
+      if (/^\p{L}$/u.test(word) || ABBREVIATIONS.has(word) || /^[\p{Ll}\p{N}]/u.test(next)) {
+        continue;
+      }
+    } else if (/^\p{Ll}/u.test(next)) {
+      continue;
+    }
+
+    sentences.push(text.slice(start, end).trim());
+    start = end;
+  }
+
+  const rest = text.slice(start).trim();
+  if (rest) sentences.push(rest);
+  return sentences;
+}
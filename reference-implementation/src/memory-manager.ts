@@ -8,34 +8,295 @@ import {
   MemoryInput,
   RecallResult,
   RecallOptions,
+  RecallBucket,
+  ChunkExpansion,
+  ChunkingStrategy,
+  CHUNKING_STRATEGIES,
+  ChunkingReport,
+  EmbeddingProvider,
+  RecallExplanation,
+  DroppedCandidate,
+  AccessLogEntry,
+  ScoringProfile,
+  ScoreFactors,
   Config,
-  MemoryType
+  MemoryType,
+  MigrationReport,
+  IndexStatus,
+  EmbeddingCacheStats,
+  ReindexReport,
+  MemoryAction,
+  MemoryHistoryEntry,
+  MemoryRelation,
+  MemoryLink,
+  MemoryGraph,
+  Contradiction,
+  ContradictionAction,
+  ContradictionOutcome,
+  RememberReport,
+  RememberOutcome,
+  RememberManyResult,
+  Chunk,
+  MemoryConflict
 } from './types.js';
-import { MLXEmbedder, Embedder } from './mlx-embedder.js';
+import { Embedder } from './mlx-embedder.js';
+import { createEmbedder, HashEmbedder, HASH_EMBEDDING_MODEL } from './embedders.js';
+import { CachedEmbedder, EmbeddingCache } from './embedding-cache.js';
 import { SmartChunker } from './chunker.js';
+import { SemanticChunker, cosineSimilarity } from './semantic-chunker.js';
+import { splitSentences } from './markdown.js';
+import { Tokenizer, createTokenizer } from './tokenizer.js';
 import { ProjectRegistryManager } from './project-registry.js';
+import { MIGRATIONS, LATEST_SCHEMA_VERSION, vectorTableDimensions } from './migrations.js';
+import { ContradictionJudge, createJudge } from './contradiction.js';
+import { resolveScoringProfile } from './scoring.js';
+import { formatMemory } from './context-packer.js';
 
 const MEMORY_PATH = join(homedir(), '.claude', 'cmem');
 const CONFIG_PATH = join(MEMORY_PATH, 'config.json');
 const UNIFIED_DB_PATH = join(MEMORY_PATH, 'memories.db');
+const BACKUP_PATH = join(MEMORY_PATH, 'backups');
+const BUSY_TIMEOUT_MS = 5000;
+const RRF_K = 60;  // Standard reciprocal rank fusion constant
+const DEFAULT_PINNED_BUDGET_TOKENS = 500;
+const DEFAULT_INJECTION_BUDGET_TOKENS = 1500;
+
+const DEFAULT_CONTRADICTION: NonNullable<Config['contradiction']> = {
+  enabled: true,
+  maxDistance: 15.0,
+  judge: 'heuristic',
+  action: 'flag',
+  budgetMs: 15000
+};
+
+// memories columns tracked in memory_history besides content (access stats are not).
+// The chunk group and created_at let revert restore a deleted chunk as it was.
+const HISTORY_FIELDS = [
+  'type', 'project', 'category', 'reasoning', 'source', 'importance',
+  'confidence', 'expires_at', 'supersedes', 'is_obsolete', 'pinned', 'tags', 'headings',
+  'group_id', 'chunk_index', 'chunk_total', 'created_at'
+] as const;
+
+type MemorySnapshot = { content: string; fields: Record<string, unknown> };
+
+interface MemoryRow {
+  id: number;
+  content: string;
+  type: MemoryType;
+  project: string | null;
+  category: string | null;
+  reasoning: string | null;
+  source: string;
+  importance: number;
+  confidence: number;
+  created_at: number;
+  last_accessed: number | null;
+  access_count: number;
+  expires_at: number | null;
+  supersedes: number | null;
+  is_obsolete: number;
+  conflicting: number;
+  pinned: number;
+  group_id: number | null;
+  chunk_index: number | null;
+  chunk_total: number | null;
+  headings: string | null;
+  tags: string;
+}
+
+/**
+ * Per-query state shared by the bucket searches of one recall.
+ */
+interface RecallContext {
+  queryEmbedding: number[] | null;  // Null in lexical mode: the query is not embedded
+  currentProject: string | null;
+  profile: ScoringProfile;
+  dropped: DroppedCandidate[];
+}
+
+/**
+ * A memory to store, redacted and chunked.
+ */
+interface PreparedMemory {
+  input: MemoryInput;
+  projectValue: string | null;
+  chunks: Chunk[];
+}
+
+/**
+ * A prepared memory with its embeddings and contradiction handling, ready
+ * for the write transaction.
+ */
+interface PlannedMemory extends PreparedMemory {
+  embeddings: number[][];
+  contradictions: Contradiction[];
+  action: ContradictionAction;
+  supersedes: number | null;
+}
+
+function toDropped(result: RecallResult, reason: DroppedCandidate['reason']): DroppedCandidate {
+  return {
+    memory: result.memory,
+    distance: result.distance,
+    score: result.score,
+    bucket: result.bucket,
+    reason,
+    explanation: result.explanation
+  };
+}
+
+function rowToMemory(row: MemoryRow): Memory {
+  return {
+    id: row.id,
+    content: row.content,
+    type: row.type,
+    project: row.project || undefined,
+    category: row.category || undefined,
+    reasoning: row.reasoning || undefined,
+    source: row.source as Memory['source'],
+    importance: row.importance,
+    confidence: row.confidence,
+    createdAt: row.created_at,
+    lastAccessed: row.last_accessed || undefined,
+    accessCount: row.access_count,
+    expiresAt: row.expires_at || undefined,
+    supersedes: row.supersedes || undefined,
+    isObsolete: row.is_obsolete === 1,
+    isConflicting: row.conflicting === 1,
+    pinned: row.pinned === 1,
+    groupId: row.group_id ?? undefined,
+    chunkIndex: row.chunk_index ?? undefined,
+    chunkTotal: row.chunk_total ?? undefined,
+    headings: row.headings ? JSON.parse(row.headings) : undefined,
+    tags: JSON.parse(row.tags)
+  };
+}
+
+/**
+ * Reciprocal rank fusion: sum of 1 / (K + rank) over the lists a hit appears in.
+ */
+function reciprocalRankFusion(ranks: Array<number | undefined>): number {
+  return ranks.reduce<number>((sum, rank) => rank === undefined ? sum : sum + 1 / (RRF_K + rank + 1), 0);
+}
+
+/**
+ * Maximal marginal relevance: repeatedly pick the hit maximizing
+ * lambda * relevance - (1 - lambda) * (max similarity to the hits picked),
+ * relevance being the score relative to the best hit. Returns all hits in
+ * pick order; sets explanation.redundancy when there is an explanation.
+ * selected: hits already picked, counted for redundancy but not returned.
+ */
+function maximalMarginalRelevance(
+  hits: RecallResult[],
+  embeddings: Map<number, Float32Array>,
+  lambda: number,
+  selected: RecallResult[] = []
+): RecallResult[] {
+  const remaining = [...hits];
+  const picked: RecallResult[] = [];
+  const chosen = [...selected];
+  const maxScore = Math.max(...hits.map(h => h.score), ...selected.map(h => h.score)) || 1;
+
+  while (remaining.length > 0) {
+    let bestIndex = 0;
+    let bestValue = -Infinity;
+    let bestRedundancy = 0;
+
+    remaining.forEach((hit, i) => {
+      const embedding = embeddings.get(hit.memory.id);
+      let redundancy = 0;
+      if (embedding) {
+        for (const p of chosen) {
+          const other = embeddings.get(p.memory.id);
+          if (other) redundancy = Math.max(redundancy, cosineSimilarity(embedding, other));
+        }
+      }
+      const value = lambda * (hit.score / maxScore) - (1 - lambda) * redundancy;
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = i;
+        bestRedundancy = redundancy;
+      }
+    });
+
+    const [hit] = remaining.splice(bestIndex, 1);
+    if (hit.explanation) hit.explanation.redundancy = bestRedundancy;
+    picked.push(hit);
+    chosen.push(hit);
+  }
+
+  return picked;
+}
+
+/**
+ * Reassemble consecutive chunks. SmartChunker starts a chunk with the last
+ * words of the previous one and a blank line: that repeat is dropped.
+ */
+function joinChunks(contents: string[]): string {
+  const normalize = (text: string) => text.split(/\s+/).join(' ');
+
+  return contents.reduce((joined, next, i) => {
+    if (i === 0) return next;
+    const breakAt = next.indexOf('\n\n');
+    if (breakAt > 0 && normalize(joined).endsWith(normalize(next.slice(0, breakAt)))) {
+      next = next.slice(breakAt + 2);
+    }
+    return `${joined}\n\n${next}`;
+  }, '');
+}
+
+/**
+ * Turn free text into an FTS5 query: every word/identifier as a quoted term, OR'ed.
+ * Quoting keeps FTS5 operators and punctuation in the prompt from being parsed.
+ */
+function toFtsQuery(text: string): string {
+  const terms = [...new Set(text.match(/[\p{L}\p{N}_]{2,}/gu) ?? [])].slice(0, 32);
+  return terms.map(t => `"${t}"`).join(' OR ');
+}
+
+export interface MemoryManagerOptions {
+  /** Recorded in memory_history: 'cli', 'api' or 'hook:<name>' */
+  actor?: string;
+}
 
 export class MemoryManager {
   private config: Config;
+  private actor: string;
   private embedder: Embedder;
+  private providerEmbedder: Embedder;  // Without the cache, for reindex
+  private embeddingCache: EmbeddingCache;
   private chunker: SmartChunker;
+  private semanticChunker: SemanticChunker;
+  private tokenizer: Tokenizer;
   private projectRegistry: ProjectRegistryManager;
   private sensitivePatterns: RegExp[];
+  private contradiction: NonNullable<Config['contradiction']>;
+  private judge: ContradictionJudge;
   private dbInstance: Database.Database | null = null;
-
-  constructor() {
+  private statements = new Map<string, Database.Statement>();
+  private schemaReady = false;
+  private indexStatus: IndexStatus | undefined;      // undefined: not checked yet
+  private fallbackEmbedder: Embedder | null;
+  private degraded: boolean | undefined;             // undefined: provider not checked yet
+
+  constructor(options: MemoryManagerOptions = {}) {
+    this.actor = options.actor ?? 'api';
     this.config = this.loadConfig();
-    this.embedder = new MLXEmbedder({
-      baseUrl: this.config.embedding.baseUrl,
-      dimensions: this.config.embedding.dimensions
-    });
-    this.chunker = new SmartChunker(this.config.chunking);
-    this.projectRegistry = new ProjectRegistryManager();
+    this.providerEmbedder = createEmbedder(this.config.embedding);
+    this.embeddingCache = new EmbeddingCache(() => this.getDb(), this.config.embedding.cache?.maxEntries);
+    this.embedder = this.config.embedding.cache?.enabled === false
+      ? this.providerEmbedder
+      : new CachedEmbedder(this.providerEmbedder, this.embeddingCache, this.vectorModel());
+    this.fallbackEmbedder = this.config.embedding.fallback === 'hash' && this.config.embedding.provider !== 'hash'
+      ? new HashEmbedder({ dimensions: this.config.embedding.dimensions })
+      : null;
+    this.tokenizer = createTokenizer(this.config.chunking, this.config.embedding.model);
+    this.chunker = new SmartChunker(this.config.chunking, this.tokenizer);
+    this.semanticChunker = new SemanticChunker(this.config.chunking, texts => this.embedBatch(texts), this.tokenizer);
+    this.projectRegistry = new ProjectRegistryManager(this.config.projects);
     this.sensitivePatterns = this.config.sensitive.patterns.map(p => new RegExp(p, 'gi'));
+    this.contradiction = { ...DEFAULT_CONTRADICTION, ...this.config.contradiction };
+    this.judge = createJudge(this.contradiction);
   }
 
   private loadConfig(): Config {
@@ -48,50 +309,432 @@ export class MemoryManager {
   /**
    * Get the unified database instance.
    * cmem v3: Single DB with project column instead of separate DBs.
+   * The connection is opened lazily and kept until close() is called.
+   * Pending schema migrations are applied on first use.
    */
   private getDb(): Database.Database {
+    const db = this.openDb();
+    if (!this.schemaReady) {
+      this.applyMigrations(db, false);
+      this.schemaReady = true;
+    }
+    return db;
+  }
+
+  private openDb(): Database.Database {
+    if (this.dbInstance) return this.dbInstance;
+
+    if (!existsSync(MEMORY_PATH)) {
+      mkdirSync(MEMORY_PATH, { recursive: true });
+    }
+
     const db = new Database(UNIFIED_DB_PATH);
+    db.pragma('journal_mode = WAL');
+    db.pragma(`busy_timeout = ${BUSY_TIMEOUT_MS}`);
     sqliteVec.load(db);
-    this.initSchema(db);
+
+    this.dbInstance = db;
     return db;
   }
 
-  private initSchema(db: Database.Database): void {
-    const dim = this.config.embedding.dimensions;
-
-    db.exec(`
-      CREATE TABLE IF NOT EXISTS memories (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        content TEXT NOT NULL,
-        type TEXT NOT NULL,
-        project TEXT,
-        category TEXT,
-        reasoning TEXT,
-        source TEXT NOT NULL,
-        importance INTEGER DEFAULT 3,
-        confidence REAL DEFAULT 1.0,
-        created_at INTEGER DEFAULT (unixepoch()),
-        last_accessed INTEGER,
-        access_count INTEGER DEFAULT 0,
-        expires_at INTEGER,
-        supersedes INTEGER,
-        is_obsolete INTEGER DEFAULT 0,
-        tags TEXT DEFAULT '[]'
-      );
+  /**
+   * Prepare a statement once and reuse it for the lifetime of the connection.
+   */
+  private prepare(sql: string): Database.Statement {
+    let stmt = this.statements.get(sql);
+    if (!stmt) {
+      stmt = this.getDb().prepare(sql);
+      this.statements.set(sql, stmt);
+    }
+    return stmt;
+  }
 
-      CREATE VIRTUAL TABLE IF NOT EXISTS vec_memories USING vec0(
-        embedding float[${dim}]
-      );
+  /**
+   * Close the database connection. Safe to call multiple times;
+   * the next operation reopens it.
+   */
+  close(): void {
+    this.statements.clear();
+    if (this.dbInstance) {
+      this.dbInstance.close();
+      this.dbInstance = null;
+    }
+  }
 
-      CREATE INDEX IF NOT EXISTS idx_memories_type ON memories(type);
-      CREATE INDEX IF NOT EXISTS idx_memories_project ON memories(project);
-      CREATE INDEX IF NOT EXISTS idx_memories_obsolete ON memories(is_obsolete);
-      CREATE INDEX IF NOT EXISTS idx_memories_created ON memories(created_at);
-    `);
+  [Symbol.dispose](): void {
+    this.close();
+  }
+
+  /**
+   * 0 for a database that was never migrated. Creates the schema_version
+   * table unless dryRun: a dry run writes nothing.
+   */
+  private getSchemaVersion(db: Database.Database, dryRun: boolean): number {
+    const exists = db.prepare(
+      "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'"
+    ).get();
+    if (!exists) {
+      if (dryRun) return 0;
+      db.exec(`
+        CREATE TABLE schema_version (
+          version INTEGER PRIMARY KEY,
+          description TEXT NOT NULL,
+          applied_at INTEGER DEFAULT (unixepoch())
+        )
+      `);
+    }
+    const row = db.prepare('SELECT MAX(version) as version FROM schema_version').get() as { version: number | null };
+    return row.version ?? 0;
+  }
+
+  /**
+   * Run pending migrations in order, each in its own transaction.
+   * An existing database is backed up (VACUUM INTO) before the first one runs.
+   */
+  private applyMigrations(db: Database.Database, dryRun: boolean): MigrationReport {
+    const fromVersion = this.getSchemaVersion(db, dryRun);
+    const pending = MIGRATIONS.filter(m => m.version > fromVersion);
+    const report: MigrationReport = {
+      fromVersion,
+      toVersion: dryRun && pending.length > 0 ? pending[pending.length - 1].version : fromVersion,
+      applied: pending.map(m => ({ version: m.version, description: m.description })),
+      backupPath: null,
+      dryRun
+    };
+
+    if (fromVersion > LATEST_SCHEMA_VERSION) {
+      throw new Error(`Database schema v${fromVersion} is newer than this cmem build (v${LATEST_SCHEMA_VERSION}). Update cmem.`);
+    }
+
+    if (dryRun || pending.length === 0) {
+      return report;
+    }
+
+    const hasData = db.prepare(
+      "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'memories'"
+    ).get();
+    if (hasData) {
+      report.backupPath = this.backupDb(db, fromVersion);
+    }
+
+    const record = db.prepare('INSERT INTO schema_version (version, description) VALUES (?, ?)');
+    for (const migration of pending) {
+      db.transaction(() => {
+        migration.up(db, this.config);
+        record.run(migration.version, migration.description);
+      })();
+      report.toVersion = migration.version;
+    }
+
+    return report;
+  }
+
+  private backupDb(db: Database.Database, version: number): string {
+    if (!existsSync(BACKUP_PATH)) {
+      mkdirSync(BACKUP_PATH, { recursive: true });
+    }
+    const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..+$/, '');
+    const path = join(BACKUP_PATH, `memories-v${version}-${stamp}.db`);
+    db.prepare('VACUUM INTO ?').run(path);
+    return path;
+  }
+
+  /**
+   * Bring the database schema up to date.
+   * With dryRun, only reports the pending migrations.
+   */
+  async migrate(dryRun: boolean = false): Promise<MigrationReport> {
+    const db = this.openDb();
+    const report = this.applyMigrations(db, dryRun);
+    if (!dryRun) {
+      this.schemaReady = true;
+    }
+    return report;
+  }
+
+  /**
+   * Compare the stored vectors with config.embedding: the vec_memories
+   * column size, and the model/size each memory was embedded with.
+   */
+  async getIndexStatus(): Promise<IndexStatus> {
+    const db = this.getDb();
+    const configModel = this.vectorModel();
+    const configDimensions = this.config.embedding.dimensions;
+    const indexDimensions = vectorTableDimensions(db, 'vec_memories');
+
+    const models = (this.prepare(`
+      SELECT embedding_model as model, embedding_dimensions as dimensions, COUNT(*) as count
+      FROM memories GROUP BY embedding_model, embedding_dimensions ORDER BY count DESC
+    `).all() as IndexStatus['models']);
+
+    let mismatch: string | null = null;
+    if (indexDimensions !== configDimensions) {
+      mismatch = `vector index has ${indexDimensions} dimensions, config.embedding.dimensions is ${configDimensions}`;
+    } else {
+      // Fallback vectors are kept apart from the others and don't block writes
+      const stale = models.find(m => m.model !== HASH_EMBEDDING_MODEL && (m.model !== configModel || m.dimensions !== configDimensions));
+      if (stale) {
+        mismatch = `${stale.count} memories embedded with ${stale.model} (${stale.dimensions}d), config uses ${configModel} (${configDimensions}d)`;
+      }
+    }
+
+    let pendingReindex: IndexStatus['pendingReindex'] = null;
+    if (vectorTableDimensions(db, 'vec_memories_reindex') !== null) {
+      const state = this.prepare('SELECT model, dimensions FROM reindex_state').get() as { model: string; dimensions: number } | undefined;
+      if (state) {
+        const done = (this.prepare('SELECT COUNT(*) as count FROM vec_memories_reindex').get() as { count: number }).count;
+        const total = models.reduce((sum, m) => sum + m.count, 0);
+        pendingReindex = { ...state, done, total };
+      }
+    }
+
+    const fallback = configModel === HASH_EMBEDDING_MODEL
+      ? 0
+      : models.filter(m => m.model === HASH_EMBEDDING_MODEL).reduce((sum, m) => sum + m.count, 0);
+
+    return { configModel, configDimensions, indexDimensions, models, mismatch, fallback, pendingReindex };
+  }
+
+  /**
+   * Refuse to store vectors that don't match the index. Checked once per
+   * manager, until reindex() rebuilds it. A recall only needs the query
+   * vector to fit the index: memories of another model are filtered out.
+   */
+  private async assertIndexInSync(forRecall = false): Promise<void> {
+    if (this.indexStatus === undefined) {
+      this.indexStatus = await this.getIndexStatus();
+    }
+    const { mismatch, indexDimensions, configDimensions } = this.indexStatus;
+    if (forRecall ? indexDimensions !== configDimensions : mismatch) {
+      throw new Error(`Embedding index out of date: ${mismatch}. Run 'cmem reindex' before ${forRecall ? 'recalling' : 'adding or updating memories'}.`);
+    }
+  }
+
+  /**
+   * The provider, or the offline fallback when it's configured and the
+   * provider doesn't answer (checked once per manager).
+   */
+  private async activeEmbedder(): Promise<Embedder> {
+    if (this.fallbackEmbedder && this.degraded === undefined) {
+      this.degraded = !(await this.embedder.isAvailable());
+    }
+    return this.degraded ? this.fallbackEmbedder! : this.embedder;
+  }
+
+  private async embed(text: string): Promise<number[]> {
+    return (await this.activeEmbedder()).embed(text);
   }
 
-  detectProject(cwd?: string): string | null {
-    return this.projectRegistry.detectProject(cwd);
+  private async embedBatch(texts: string[]): Promise<number[][]> {
+    return (await this.activeEmbedder()).embedBatch(texts);
+  }
+
+  /**
+   * Chunk with the configured strategy; semantic embeds the sentences first.
+   */
+  private async chunk(content: string): Promise<Chunk[]> {
+    return (await this.chunkMany([content]))[0];
+  }
+
+  /**
+   * chunk() for several contents; semantic embeds the sentences of all of
+   * them in batches of batchSize texts.
+   */
+  private async chunkMany(contents: string[], batchSize?: number): Promise<Chunk[][]> {
+    return this.getChunkingStrategy() === 'semantic'
+      ? this.semanticChunker.chunkMany(contents, batchSize)
+      : contents.map(content => this.chunker.chunk(content));
+  }
+
+  /**
+   * Model name the provider's vectors are recorded and cached under. The
+   * hash provider's are its own whatever embedding.model says, so they are
+   * never taken for the real model's.
+   */
+  private vectorModel(): string {
+    return this.config.embedding.provider === 'hash' ? HASH_EMBEDDING_MODEL : this.config.embedding.model;
+  }
+
+  /**
+   * Model name recorded with the vectors this manager writes.
+   */
+  private activeModel(): string {
+    return this.degraded ? HASH_EMBEDDING_MODEL : this.vectorModel();
+  }
+
+  /**
+   * Runs inside the caller's transaction.
+   */
+  private recordVectorModel(memoryId: number, embedding: number[]): void {
+    this.prepare('UPDATE memories SET embedding_model = ?, embedding_dimensions = ? WHERE id = ?')
+      .run(this.activeModel(), embedding.length, memoryId);
+  }
+
+  /**
+   * Condition on memories for vector searches: fallback vectors and the
+   * provider's are not comparable, so each only meets its own kind.
+   */
+  private vectorSpace(): { sql: string; params: unknown[] } {
+    const hashed = this.degraded || this.vectorModel() === HASH_EMBEDDING_MODEL;
+    return {
+      sql: `embedding_model ${hashed ? 'IS' : 'IS NOT'} ?`,
+      params: [HASH_EMBEDDING_MODEL]
+    };
+  }
+
+  /**
+   * Re-embed every memory with the configured model into a fresh vector
+   * table, batchSize texts per embedBatch call, then swap it in for
+   * vec_memories in one transaction. Progress is kept in the database: an
+   * interrupted run resumes where it stopped (same model and dimensions).
+   */
+  async reindex(options: {
+    batchSize?: number;
+    onProgress?: (done: number, total: number) => void;
+  } = {}): Promise<ReindexReport> {
+    const db = this.getDb();
+    const model = this.vectorModel();
+    const { dimensions } = this.config.embedding;
+    const batchSize = options.batchSize ?? 32;
+
+    const pending = (await this.getIndexStatus()).pendingReindex;
+    if (!pending || pending.model !== model || pending.dimensions !== dimensions) {
+      db.transaction(() => {
+        db.exec(`
+          DROP TABLE IF EXISTS vec_memories_reindex;
+          DROP TABLE IF EXISTS reindex_state;
+          CREATE VIRTUAL TABLE vec_memories_reindex USING vec0(embedding float[${dimensions}]);
+          CREATE TABLE reindex_state (
+            model TEXT NOT NULL,
+            dimensions INTEGER NOT NULL,
+            started_at INTEGER DEFAULT (unixepoch())
+          );
+        `);
+        db.prepare('INSERT INTO reindex_state (model, dimensions) VALUES (?, ?)').run(model, dimensions);
+      })();
+      // Prepared statements on the dropped tables are stale
+      this.statements.clear();
+    }
+
+    const total = (this.prepare('SELECT COUNT(*) as count FROM memories').get() as { count: number }).count;
+    const resumed = pending?.model === model && pending.dimensions === dimensions ? pending.done : 0;
+    let lastId = (this.prepare('SELECT MAX(rowid) as id FROM vec_memories_reindex').get() as { id: number | null }).id ?? 0;
+    let done = resumed;
+
+    const nextBatch = this.prepare('SELECT id, content FROM memories WHERE id > ? ORDER BY id LIMIT ?');
+    const insert = this.prepare('INSERT INTO vec_memories_reindex (rowid, embedding) VALUES (?, ?)');
+
+    for (;;) {
+      const rows = nextBatch.all(lastId, batchSize) as Array<{ id: number; content: string }>;
+
+      if (rows.length === 0) {
+        // Swap, unless memories were added since the last batch
+        const swapped = db.transaction((): boolean => {
+          if (this.prepare('SELECT 1 FROM memories WHERE id > ?').get(lastId)) return false;
+          db.exec(`
+            DROP TABLE vec_memories;
+            CREATE VIRTUAL TABLE vec_memories USING vec0(embedding float[${dimensions}]);
+            INSERT INTO vec_memories (rowid, embedding)
+              SELECT rowid, embedding FROM vec_memories_reindex
+              WHERE rowid IN (SELECT id FROM memories);
+            DROP TABLE vec_memories_reindex;
+            DROP TABLE reindex_state;
+          `);
+          db.prepare('UPDATE memories SET embedding_model = ?, embedding_dimensions = ?').run(model, dimensions);
+          return true;
+        }).immediate();
+        if (swapped) break;
+        continue;
+      }
+
+      // Straight from the provider: reindexing is about recomputing the vectors
+      const embeddings = await this.providerEmbedder.embedBatch(rows.map(r => r.content));
+      const wrongSize = embeddings.find(e => e.length !== dimensions);
+      if (embeddings.length !== rows.length || wrongSize) {
+        throw new Error(`Embedding server returned ${wrongSize?.length ?? embeddings.length} values where ${dimensions} dimensions were expected (config.embedding.dimensions)`);
+      }
+
+      db.transaction(() => {
+        rows.forEach((row, i) => insert.run(BigInt(row.id), JSON.stringify(embeddings[i])));
+      })();
+
+      lastId = rows[rows.length - 1].id;
+      done += rows.length;
+      options.onProgress?.(done, total);
+    }
+
+    this.statements.clear();
+    this.indexStatus = undefined;
+    return { model, dimensions, total, embedded: done - resumed, resumed };
+  }
+
+  /**
+   * Chunk the documents with each strategy and measure the chunks: size,
+   * cohesion and separation (see ChunkingReport). documents may depend on
+   * the strategy, like the texts ingest stores. Nothing is stored; the
+   * embeddings go through the cache, so strategies share most of them.
+   */
+  async compareChunkingStrategies(
+    documents: string[] | ((strategy: ChunkingStrategy) => string[]),
+    strategies: ChunkingStrategy[] = CHUNKING_STRATEGIES
+  ): Promise<ChunkingReport[]> {
+    const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+    const reports: ChunkingReport[] = [];
+
+    for (const strategy of strategies) {
+      const config = { ...this.config.chunking, strategy };
+      const texts = typeof documents === 'function' ? documents(strategy) : documents;
+      const smartChunker = new SmartChunker(config, this.tokenizer);
+      const chunked = strategy === 'semantic'
+        ? await new SemanticChunker(config, batch => this.embedBatch(batch), this.tokenizer).chunkMany(texts)
+        : texts.map(text => smartChunker.chunk(text));
+      const sizes: number[] = [];
+      const cohesions: number[] = [];
+      const separations: number[] = [];
+
+      for (const chunks of chunked) {
+        const contents = chunks.map(c => c.content);
+        const chunkEmbeddings = await this.embedBatch(contents);
+        sizes.push(...contents.map(c => this.tokenizer.countTokens(c)));
+
+        for (let i = 1; i < chunkEmbeddings.length; i++) {
+          separations.push(1 - cosineSimilarity(chunkEmbeddings[i - 1], chunkEmbeddings[i]));
+        }
+
+        // Sentences of all the chunks in one batch
+        const sentences = contents.map(c => splitSentences(c));
+        const sentenceEmbeddings = await this.embedBatch(sentences.flat());
+        let offset = 0;
+        sentences.forEach((own, i) => {
+          const embeddings = sentenceEmbeddings.slice(offset, offset + own.length);
+          offset += own.length;
+          if (own.length > 1) {
+            cohesions.push(mean(embeddings.map(e => cosineSimilarity(e, chunkEmbeddings[i])))!);
+          }
+        });
+      }
+
+      reports.push({
+        strategy,
+        documents: texts.length,
+        chunks: sizes.length,
+        avgTokens: mean(sizes) ?? 0,
+        maxTokens: Math.max(0, ...sizes),
+        overLimit: sizes.filter(s => s > this.config.chunking.maxTokens).length,
+        cohesion: mean(cohesions),
+        separation: mean(separations)
+      });
+    }
+
+    return reports;
+  }
+
+  /**
+   * register: the hooks may register an unregistered git repository
+   * (projects.autoRegister).
+   */
+  detectProject(cwd?: string, options: { register?: boolean } = {}): string | null {
+    return this.projectRegistry.detectProject(cwd, options);
   }
 
   private containsSensitiveData(content: string): boolean {
@@ -103,414 +746,1420 @@ export class MemoryManager {
     for (const pattern of this.sensitivePatterns) {
       sanitized = sanitized.replace(pattern, '[REDACTED]');
     }
-    return sanitized;
+    return sanitized;
+  }
+
+  /**
+   * Find a near-duplicate memory by embedding similarity.
+   * Returns the existing memory ID if found, null otherwise.
+   */
+  private findNearDuplicate(
+    embedding: number[]
+  ): { id: number; content: string; importance: number } | null {
+    if (!this.config.dedup.enabled) return null;
+
+    const threshold = this.config.dedup.similarityThreshold;
+
+    const row = this.prepare(`
+      SELECT v.rowid as id, v.distance, m.content, m.importance
+      FROM vec_memories v
+      JOIN memories m ON v.rowid = m.id
+      WHERE v.embedding MATCH ?
+        AND k = 1
+        AND v.rowid IN (SELECT id FROM memories WHERE ${this.vectorSpace().sql})
+        AND m.is_obsolete = 0
+    `).get(JSON.stringify(embedding), ...this.vectorSpace().params) as { id: number; distance: number; content: string; importance: number } | undefined;
+
+    if (row && row.distance < threshold) {
+      return { id: row.id, content: row.content, importance: row.importance };
+    }
+    return null;
+  }
+
+  /**
+   * Project column for a new memory (NULL for global/preference types).
+   */
+  private resolveProject(input: MemoryInput): string | null {
+    const project = input.project ?? this.detectProject();
+    const isGlobal = input.type === 'preference' || !project;
+    return isGlobal ? null : project;
+  }
+
+  /**
+   * Active decisions/preferences in the same scope (same project, or both
+   * global) within contradiction.maxDistance of the embedding.
+   */
+  private contradictionCandidates(
+    embedding: number[],
+    projectValue: string | null
+  ): Array<MemoryRow & { distance: number }> {
+    const rows = this.prepare(`
+      SELECT m.*, v.distance
+      FROM vec_memories v
+      JOIN memories m ON v.rowid = m.id
+      WHERE v.embedding MATCH ?
+        AND k = 20
+        AND v.rowid IN (SELECT id FROM memories WHERE ${this.vectorSpace().sql})
+        AND m.is_obsolete = 0
+        AND m.type IN ('decision', 'preference')
+        AND m.project IS ?
+        AND (m.expires_at IS NULL OR m.expires_at > unixepoch())
+      ORDER BY v.distance
+    `).all(JSON.stringify(embedding), ...this.vectorSpace().params, projectValue) as Array<MemoryRow & { distance: number }>;
+
+    return rows.filter(row => row.distance < this.contradiction.maxDistance);
+  }
+
+  /**
+   * Run the judge over the close neighbours of each chunk.
+   * Only decisions and preferences are checked.
+   */
+  private async detectContradictions(
+    input: MemoryInput,
+    chunks: Array<{ content: string }>,
+    embeddings: number[][],
+    projectValue: string | null
+  ): Promise<Contradiction[]> {
+    if (!this.contradiction.enabled) return [];
+    if (input.type !== 'decision' && input.type !== 'preference') return [];
+
+    // Up to 20 candidates per chunk: a slow judge must not block a hook for minutes
+    const deadline = Date.now() + (this.contradiction.budgetMs ?? 15000);
+    const found = new Map<number, Contradiction>();
+    for (let i = 0; i < chunks.length; i++) {
+      for (const row of this.contradictionCandidates(embeddings[i], projectValue)) {
+        if (found.has(row.id) || row.content === chunks[i].content) continue;
+
+        const verdict = await this.judge.judge(chunks[i].content, row.content, deadline);
+        if (verdict.contradicts) {
+          found.set(row.id, {
+            memory: rowToMemory(row),
+            distance: row.distance,
+            reason: verdict.reason,
+            judge: this.judge.name
+          });
+        }
+      }
+    }
+    return [...found.values()];
+  }
+
+  /**
+   * Existing decisions/preferences that the input would contradict. Nothing is written.
+   */
+  async findContradictions(input: MemoryInput): Promise<Contradiction[]> {
+    await this.assertIndexInSync();
+    const content = this.containsSensitiveData(input.content)
+      ? this.sanitizeContent(input.content)
+      : input.content;
+    const chunks = await this.chunk(content);
+    const embeddings = await this.embedBatch(chunks.map(c => c.content));
+    return this.detectContradictions(input, chunks, embeddings, this.resolveProject(input));
+  }
+
+  async remember(input: MemoryInput): Promise<number[]> {
+    return (await this.rememberWithReport(input)).ids;
+  }
+
+  /**
+   * remember() that also reports the contradictions found and what was done
+   * about them (input.onContradiction, else config.contradiction.action).
+   */
+  async rememberWithReport(input: MemoryInput): Promise<RememberReport> {
+    await this.assertIndexInSync();
+
+    const prepared = await this.prepareInput(input);
+
+    // Embed everything before touching the DB so the writes below can run
+    // in a single synchronous transaction
+    const embeddings = await this.embedBatch(prepared.chunks.map(c => c.content));
+    const planned = await this.planContradictions(prepared, embeddings);
+
+    const { ids } = this.getDb().transaction(() => this.storeChunks(planned))();
+    return {
+      ids,
+      contradictions: planned.contradictions.map(c => ({ ...c, action: planned.action }))
+    };
+  }
+
+  /**
+   * Store many memories at once: everything is chunked first, embedded
+   * batchSize chunks per embedBatch call, then deduplicated and inserted in
+   * one transaction. Results are in input order.
+   * Contradictions are looked for among the memories stored before the call.
+   */
+  async rememberMany(inputs: MemoryInput[], options: {
+    batchSize?: number;
+    onProgress?: (done: number, total: number) => void;
+  } = {}): Promise<RememberManyResult[]> {
+    await this.assertIndexInSync();
+    const batchSize = options.batchSize ?? 32;
+
+    const prepared = await this.prepareInputs(inputs, batchSize);
+    const texts = prepared.flatMap(p => p.chunks.map(c => c.content));
+
+    const embeddings: number[][] = [];
+    for (let i = 0; i < texts.length; i += batchSize) {
+      embeddings.push(...await this.embedBatch(texts.slice(i, i + batchSize)));
+      options.onProgress?.(embeddings.length, texts.length);
+    }
+
+    const planned: PlannedMemory[] = [];
+    let offset = 0;
+    for (const p of prepared) {
+      const own = embeddings.slice(offset, offset + p.chunks.length);
+      offset += p.chunks.length;
+      planned.push(await this.planContradictions(p, own));
+    }
+
+    return this.getDb().transaction((): RememberManyResult[] => planned.map(plan => ({
+      ...this.storeChunks(plan),
+      contradictions: plan.contradictions.map(c => ({ ...c, action: plan.action }))
+    })))();
+  }
+
+  private async prepareInput(input: MemoryInput): Promise<PreparedMemory> {
+    return (await this.prepareInputs([input]))[0];
+  }
+
+  /**
+   * Redact sensitive data, resolve the project and chunk, all inputs at once
+   * (chunkMany).
+   */
+  private async prepareInputs(inputs: MemoryInput[], batchSize?: number): Promise<PreparedMemory[]> {
+    const redacted = inputs.map(input => {
+      // Check for sensitive data
+      if (this.containsSensitiveData(input.content)) {
+        console.warn('Warning: Sensitive data detected and redacted');
+        return { ...input, content: this.sanitizeContent(input.content) };
+      }
+      return input;
+    });
+
+    const chunks = await this.chunkMany(redacted.map(input => input.content), batchSize);
+    return redacted.map((input, i) => ({
+      input,
+      projectValue: this.resolveProject(input),
+      chunks: chunks[i]
+    }));
+  }
+
+  /**
+   * Contradictions of the embedded chunks, and what to do about them.
+   */
+  private async planContradictions(prepared: PreparedMemory, embeddings: number[][]): Promise<PlannedMemory> {
+    const { input, chunks, projectValue } = prepared;
+    const contradictions = await this.detectContradictions(input, chunks, embeddings, projectValue);
+    const configured = this.contradiction.action;
+    const action: ContradictionAction = input.onContradiction
+      ?? (configured === 'prompt' ? 'flag' : configured);
+    const supersedes = input.supersedes
+      || (action === 'supersede' && contradictions.length > 0 ? contradictions[0].memory.id : null);
+
+    return { ...prepared, embeddings, contradictions, action, supersedes };
+  }
+
+  /**
+   * Dedup and insert the chunks of one memory, then resolve its
+   * contradictions. Runs inside the caller's transaction.
+   */
+  private storeChunks(plan: PlannedMemory): { ids: number[]; outcomes: RememberOutcome[] } {
+    const { input, projectValue, chunks, embeddings, contradictions, action, supersedes } = plan;
+    const contradicted = new Set(contradictions.map(c => c.memory.id));
+    const memoryIds: number[] = [];
+    const outcomes: RememberOutcome[] = [];
+    // Multi-chunk content: the chunks share the first stored chunk's ID
+    let groupId: number | null = null;
+
+    chunks.forEach((chunk, i) => {
+      const embedding = embeddings[i];
+
+      // Dedup check: update existing if near-duplicate found.
+      // A contradicted memory is never a duplicate, however close.
+      if (!input.skipDedup) {
+        const found = this.findNearDuplicate(embedding);
+        const existing = found && !contradicted.has(found.id) ? found : null;
+        if (existing) {
+          // Update if new content is longer (preferLonger) or importance is higher
+          const shouldUpdate = (this.config.dedup.preferLonger && chunk.content.length > existing.content.length)
+            || (input.importance && input.importance > existing.importance);
+
+          if (shouldUpdate) {
+            this.mutate(existing.id, 'merge', () => {
+              this.prepare('UPDATE memories SET content = ?, importance = MAX(importance, ?) WHERE id = ?')
+                .run(chunk.content, input.importance ?? 3, existing.id);
+              this.prepare('UPDATE vec_memories SET embedding = ? WHERE rowid = ?')
+                .run(JSON.stringify(embedding), BigInt(existing.id));
+              this.recordVectorModel(existing.id, embedding);
+            });
+          }
+          memoryIds.push(existing.id);
+          outcomes.push(shouldUpdate ? 'merged' : 'skipped');
+          return;
+        }
+      }
+
+      const memoryId = this.insertMemory(
+        input, projectValue, chunk.content, embedding, supersedes,
+        chunk.total > 1 ? { groupId, index: chunk.index, total: chunk.total, headings: chunk.headings } : null
+      );
+      groupId ??= chunk.total > 1 ? memoryId : null;
+
+      memoryIds.push(memoryId);
+      outcomes.push('inserted');
+    });
+
+    // Mark superseded memory as obsolete, once for all the chunks
+    if (input.supersedes && outcomes.includes('inserted')) {
+      const supersededId = input.supersedes;
+      this.mutate(supersededId, 'obsolete', () => {
+        this.prepare('UPDATE memories SET is_obsolete = 1 WHERE id = ?').run(supersededId);
+      });
+    }
+
+    if (memoryIds.length > 0) {
+      this.resolveContradictions(memoryIds[0], contradictions, action);
+    }
+
+    return { ids: memoryIds, outcomes };
+  }
+
+  /**
+   * Insert one memory, its vector and its 'create' history entry. A chunk
+   * with no groupId yet starts a group named after its own ID; its headings
+   * (markdown chunking), after input.headings, are stored with it.
+   * Runs inside the caller's transaction.
+   */
+  private insertMemory(
+    input: MemoryInput,
+    projectValue: string | null,
+    content: string,
+    embedding: number[],
+    supersedes: number | null,
+    chunk: { groupId: number | null; index: number; total: number; headings?: string[] } | null
+  ): number {
+    const headings = [...input.headings ?? [], ...chunk?.headings ?? []];
+    const result = this.prepare(`
+      INSERT INTO memories (content, type, project, category, reasoning, source, importance, confidence, tags, expires_at, supersedes, group_id, chunk_index, chunk_total, headings, embedding_model, embedding_dimensions)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      content,
+      input.type || 'fact',
+      projectValue,
+      input.category || null,
+      input.reasoning || null,
+      input.source || 'manual',
+      input.importance ?? 3,
+      input.confidence ?? 1.0,
+      JSON.stringify(input.tags || []),
+      input.expiresAt || null,
+      supersedes,
+      chunk?.groupId ?? null,
+      chunk?.index ?? null,
+      chunk?.total ?? null,
+      headings.length ? JSON.stringify(headings) : null,
+      this.activeModel(),
+      embedding.length
+    );
+
+    const memoryId = Number(result.lastInsertRowid);
+    if (chunk && chunk.groupId === null) {
+      this.prepare('UPDATE memories SET group_id = ? WHERE id = ?').run(memoryId, memoryId);
+    }
+
+    // Insert embedding (vec0 requires BigInt for rowid)
+    this.prepare(`
+      INSERT INTO vec_memories (rowid, embedding)
+      VALUES (?, ?)
+    `).run(BigInt(memoryId), JSON.stringify(embedding));
+
+    this.recordHistory(memoryId, 'create', null, this.snapshot(memoryId));
+    return memoryId;
+  }
+
+  /**
+   * Apply the contradiction action between a new memory and the ones it contradicts.
+   * Runs inside remember()'s transaction.
+   */
+  private resolveContradictions(
+    newId: number,
+    contradictions: Contradiction[],
+    action: ContradictionAction
+  ): void {
+    for (const { memory } of contradictions) {
+      if (memory.id === newId) continue;
+
+      if (action === 'supersede' && !memory.isObsolete) {
+        this.mutate(memory.id, 'obsolete', () => {
+          this.prepare('UPDATE memories SET is_obsolete = 1 WHERE id = ?').run(memory.id);
+        });
+      } else if (action === 'flag') {
+        this.prepare('UPDATE memories SET conflicting = 1 WHERE id IN (?, ?)').run(newId, memory.id);
+        this.prepare(`
+          INSERT OR IGNORE INTO memory_links (source_id, target_id, relation)
+          VALUES (?, ?, 'contradicts')
+        `).run(newId, memory.id);
+      }
+    }
+  }
+
+  /**
+   * Clear the conflict flag on memories that no longer contradict an active
+   * memory (the other side was superseded, made obsolete or deleted).
+   */
+  private clearResolvedConflicts(): void {
+    this.prepare(`
+      UPDATE memories SET conflicting = 0
+      WHERE conflicting = 1
+        AND (is_obsolete = 1 OR NOT EXISTS (
+          SELECT 1 FROM memory_links l
+          JOIN memories o ON o.id = CASE WHEN l.source_id = memories.id THEN l.target_id ELSE l.source_id END
+          WHERE l.relation = 'contradicts'
+            AND (l.source_id = memories.id OR l.target_id = memories.id)
+            AND o.is_obsolete = 0
+        ))
+    `).run();
+  }
+
+  /**
+   * Unresolved conflicts: active memory pairs linked by 'contradicts' where
+   * both are still flagged. Optionally limited to a project (null = global).
+   */
+  async getConflicts(project?: string | null): Promise<MemoryConflict[]> {
+    let sql = `
+      SELECT l.source_id, l.target_id, l.created_at
+      FROM memory_links l
+      JOIN memories a ON a.id = l.source_id
+      JOIN memories b ON b.id = l.target_id
+      WHERE l.relation = 'contradicts'
+        AND a.conflicting = 1 AND b.conflicting = 1
+        AND a.is_obsolete = 0 AND b.is_obsolete = 0
+    `;
+    const params: unknown[] = [];
+
+    if (project !== undefined) {
+      if (project === null) {
+        sql += ' AND a.project IS NULL';
+      } else {
+        sql += ' AND a.project = ?';
+        params.push(project);
+      }
+    }
+
+    sql += ' ORDER BY l.created_at DESC';
+
+    const getMemory = this.prepare('SELECT * FROM memories WHERE id = ?');
+    const rows = this.prepare(sql).all(...params) as Array<{ source_id: number; target_id: number; created_at: number }>;
+
+    return rows.map(row => ({
+      a: rowToMemory(getMemory.get(row.source_id) as MemoryRow),
+      b: rowToMemory(getMemory.get(row.target_id) as MemoryRow),
+      since: row.created_at
+    }));
+  }
+
+  async recall(query: string, options: RecallOptions = {}): Promise<RecallResult[]> {
+    return (await this.runRecall(query, options)).results;
+  }
+
+  /**
+   * recall() with explain on, plus the candidates that were found but
+   * dropped (threshold, quota or limit). Access stats are updated as usual.
+   */
+  async explainRecall(query: string, options: RecallOptions = {}): Promise<RecallExplanation> {
+    return this.runRecall(query, { ...options, explain: true });
+  }
+
+  private async runRecall(query: string, options: RecallOptions): Promise<RecallExplanation> {
+    const diversity = options.diversity ?? this.config.recall.diversity ?? 1;
+    if (!(diversity >= 0 && diversity <= 1)) {
+      throw new Error(`diversity must be between 0 and 1, got ${diversity}`);
+    }
+
+    const project = options.project ?? this.detectProject();
+    const mode = options.mode ?? this.config.recall.mode ?? 'hybrid';
+    if (mode !== 'lexical') {
+      await this.assertIndexInSync(true);
+    }
+    const ctx: RecallContext = {
+      profile: resolveScoringProfile(this.config, options.profile),
+      // Lexical recall only needs FTS5, so it works with the embedder down
+      queryEmbedding: mode === 'lexical' ? null : await this.embed(query),
+      currentProject: project,
+      dropped: []
+    };
+    const { projectResults, globalResults, globalTypesInProject } = this.config.recall;
+    const limit = options.limit || (projectResults + globalResults);
+
+    // Best first: by score, or by MMR to spread the picks out (away from
+    // the ones already selected too)
+    const rank = (hits: RecallResult[], selected: RecallResult[] = []) => diversity < 1
+      ? maximalMarginalRelevance(hits, this.loadEmbeddings([...hits, ...selected].map(h => h.memory.id)), diversity, selected)
+      : hits.sort((a, b) => b.score - a.score);
+
+    let top: RecallResult[];
+
+    // In a detected project (and without an explicit scope filter), the
+    // project and global memories are searched separately so neither side can
+    // crowd the other out. Otherwise a single search covers the scope.
+    const explicitScope = Boolean(options.project || options.globalOnly || options.projects?.length);
+    if (project && !explicitScope) {
+      const quotas = this.splitQuotas(limit);
+
+      const projectHits = await this.searchUnifiedDb(query, ctx, {
+        ...options, project
+      }, 'project', limit * 2);
+      const globalHits = await this.searchUnifiedDb(query, ctx, {
+        ...options,
+        project: undefined,
+        globalOnly: true,
+        // An explicit type filter wins over globalTypesInProject
+        types: options.type ? undefined : globalTypesInProject
+      }, 'global', limit * 2);
+
+      top = this.mergeBuckets([
+        { hits: rank(projectHits), quota: quotas.project },
+        { hits: rank(globalHits), quota: quotas.global }
+      ], limit, rank, ctx.dropped);
+    } else {
+      const results = rank(await this.searchUnifiedDb(query, ctx, options, 'all', limit * 2));
+      top = results.slice(0, limit).sort((a, b) => b.score - a.score);
+      ctx.dropped.push(...results.slice(limit).map(r => toDropped(r, 'limit')));
+    }
+
+    const expansion = options.expandChunks ?? this.config.recall.expandChunks ?? 'none';
+    if (expansion !== 'none') {
+      top = this.expandChunks(top, expansion, options, ctx.dropped);
+    }
+
+    if (options.includeLinked ?? this.config.recall.includeLinked) {
+      top.push(...this.linkedResults(top, ctx.queryEmbedding, options));
+    }
+
+    if (options.trackAccess ?? true) {
+      this.trackAccess(top.map(r => r.memory.id));
+    }
+
+    return { results: top, dropped: ctx.dropped };
+  }
+
+  /**
+   * Bump access stats of the memories returned by a recall and log who
+   * surfaced them, one statement each.
+   */
+  private trackAccess(memoryIds: number[]): void {
+    if (memoryIds.length === 0) return;
+    const ids = JSON.stringify(memoryIds);
+
+    this.getDb().transaction(() => {
+      this.prepare(`
+        UPDATE memories
+        SET last_accessed = unixepoch(), access_count = access_count + 1
+        WHERE id IN (SELECT value FROM json_each(?))
+      `).run(ids);
+      this.prepare(`
+        INSERT INTO access_log (memory_id, actor)
+        SELECT value, ? FROM json_each(?)
+      `).run(this.actor, ids);
+    })();
+  }
+
+  /**
+   * When and by whom a memory was returned by recall, most recent first.
+   */
+  async getAccessLog(memoryId: number, limit: number = 20): Promise<AccessLogEntry[]> {
+    const rows = this.prepare(`
+      SELECT memory_id, actor, accessed_at FROM access_log
+      WHERE memory_id = ?
+      ORDER BY accessed_at DESC, id DESC
+      LIMIT ?
+    `).all(memoryId, limit) as Array<{ memory_id: number; actor: string; accessed_at: number }>;
+
+    return rows.map(row => ({
+      memoryId: row.memory_id,
+      actor: row.actor,
+      accessedAt: row.accessed_at
+    }));
+  }
+
+  /**
+   * projectResults/globalResults for a given limit. A smaller limit shrinks
+   * both proportionally, keeping at least one global slot.
+   */
+  private splitQuotas(limit: number): { project: number; global: number } {
+    const { projectResults, globalResults } = this.config.recall;
+    const total = projectResults + globalResults;
+    if (limit >= total || total === 0) {
+      return { project: projectResults, global: globalResults };
+    }
+
+    const global = globalResults > 0 ? Math.max(1, Math.round(limit * globalResults / total)) : 0;
+    return { project: Math.max(0, limit - global), global: Math.min(global, limit) };
+  }
+
+  /**
+   * Stored vectors of the given memories, for similarity between results.
+   */
+  private loadEmbeddings(memoryIds: number[]): Map<number, Float32Array> {
+    const rows = this.prepare(`
+      SELECT rowid as id, embedding FROM vec_memories
+      WHERE rowid IN (SELECT value FROM json_each(?))
+    `).all(JSON.stringify(memoryIds)) as Array<{ id: number; embedding: Buffer }>;
+
+    return new Map(rows.map(row => [
+      row.id,
+      new Float32Array(row.embedding.buffer, row.embedding.byteOffset, row.embedding.byteLength / 4)
+    ]));
+  }
+
+  /**
+   * Take each bucket's best hits (ranked best first) up to its quota, then fill the slots a
+   * bucket left empty (and any limit beyond the quotas) with the best
+   * remaining hits of the others. Sorted by score. The rest go to dropped.
+   */
+  private mergeBuckets(
+    buckets: Array<{ hits: RecallResult[]; quota: number }>,
+    limit: number,
+    rank: (hits: RecallResult[], selected: RecallResult[]) => RecallResult[],
+    dropped: DroppedCandidate[]
+  ): RecallResult[] {
+    const taken: RecallResult[] = [];
+    const leftover: RecallResult[] = [];
+
+    for (const { hits, quota } of buckets) {
+      taken.push(...hits.slice(0, quota));
+      leftover.push(...hits.slice(quota));
+    }
+
+    // Backfill in the same order as the quota picks (MMR with diversity)
+    const ranked = rank(leftover, taken);
+    const backfill = Math.max(0, limit - taken.length);
+    taken.push(...ranked.slice(0, backfill));
+    dropped.push(...ranked.slice(backfill).map(r => toDropped(r, 'quota')));
+
+    return taken.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  /**
+   * Attach the neighbouring chunks (or the whole document) to each chunk hit.
+   * A hit already returned as part of a better hit's expansion is dropped.
+   */
+  private expandChunks(
+    hits: RecallResult[],
+    expansion: ChunkExpansion,
+    options: RecallOptions,
+    dropped: DroppedCandidate[]
+  ): RecallResult[] {
+    const covered = new Set<number>();
+    const expanded: RecallResult[] = [];
+
+    const siblings = this.prepare(`
+      SELECT * FROM memories
+      WHERE group_id = ? AND chunk_index BETWEEN ? AND ?
+        AND (is_obsolete = 0 OR ? = 1)
+      ORDER BY chunk_index, id
+    `);
+
+    for (const hit of hits) {
+      const { id, groupId, chunkIndex } = hit.memory;
+      if (covered.has(id)) {
+        dropped.push(toDropped(hit, 'expanded'));
+        continue;
+      }
+
+      if (groupId === undefined || chunkIndex === undefined) {
+        covered.add(id);
+        expanded.push(hit);
+        continue;
+      }
+
+      const [from, to] = expansion === 'document' ? [0, Number.MAX_SAFE_INTEGER] : [chunkIndex - 1, chunkIndex + 1];
+      const chunks = (siblings.all(groupId, from, to, options.includeObsolete ? 1 : 0) as MemoryRow[]).map(rowToMemory);
+
+      for (const chunk of chunks) covered.add(chunk.id);
+      expanded.push({
+        ...hit,
+        chunks,
+        expandedContent: joinChunks(chunks.map(c => c.content))
+      });
+    }
+
+    return expanded;
+  }
+
+  /**
+   * First-degree neighbours of the hits (both directions), not already in the
+   * results. Scored at half their parent's score so they sort after it.
+   */
+  private linkedResults(
+    hits: RecallResult[],
+    queryEmbedding: number[] | null,
+    options: RecallOptions
+  ): RecallResult[] {
+    const seen = new Set(hits.map(h => h.memory.id));
+    const linked: RecallResult[] = [];
+
+    const neighbours = this.prepare(`
+      SELECT m.*, l.relation, ${queryEmbedding ? 'vec_distance_l2(v.embedding, ?)' : 'NULL'} as distance
+      FROM memory_links l
+      JOIN memories m ON m.id = CASE WHEN l.source_id = ? THEN l.target_id ELSE l.source_id END
+      JOIN vec_memories v ON v.rowid = m.id
+      WHERE (l.source_id = ? OR l.target_id = ?)
+        AND (m.expires_at IS NULL OR m.expires_at > unixepoch())
+    `);
+
+    for (const hit of hits) {
+      const id = hit.memory.id;
+      const params = queryEmbedding ? [JSON.stringify(queryEmbedding), id, id, id] : [id, id, id];
+      const rows = neighbours.all(...params) as Array<MemoryRow & { relation: MemoryRelation; distance: number | null }>;
+
+      for (const row of rows) {
+        if (seen.has(row.id)) continue;
+        if (!options.includeObsolete && row.is_obsolete === 1) continue;
+        if (options.excludePinned && row.pinned === 1) continue;
+        seen.add(row.id);
+
+        linked.push({
+          memory: rowToMemory(row),
+          distance: row.distance ?? Infinity,
+          score: hit.score * 0.5,
+          source: row.project,
+          bucket: 'linked',
+          linkedFrom: { memoryId: id, relation: row.relation }
+        });
+      }
+    }
+
+    return linked;
+  }
+
+  /**
+   * SQL conditions shared by the semantic and lexical candidate searches,
+   * AND'ed together. Expects the memories table aliased as m.
+   */
+  private buildFilterClause(options: RecallOptions): { sql: string; params: unknown[] } {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (!options.includeObsolete) {
+      conditions.push('m.is_obsolete = 0');
+    }
+
+    if (options.type) {
+      conditions.push('m.type = ?');
+      params.push(options.type);
+    }
+
+    if (options.types && options.types.length > 0) {
+      conditions.push('m.type IN (SELECT value FROM json_each(?))');
+      params.push(JSON.stringify(options.types));
+    }
+
+    if (options.minImportance) {
+      conditions.push('m.importance >= ?');
+      params.push(options.minImportance);
+    }
+
+    if (options.excludePinned) {
+      conditions.push('m.pinned = 0');
+    }
+
+    if (options.minConfidence !== undefined) {
+      conditions.push('m.confidence >= ?');
+      params.push(options.minConfidence);
+    }
+
+    if (options.category) {
+      conditions.push('m.category = ?');
+      params.push(options.category);
+    }
+
+    if (options.source) {
+      conditions.push('m.source = ?');
+      params.push(options.source);
+    }
+
+    // Scope: global only, or a set of projects
+    const projects = [...(options.project ? [options.project] : []), ...(options.projects ?? [])];
+    if (options.globalOnly) {
+      conditions.push('m.project IS NULL');
+    } else if (projects.length > 0) {
+      conditions.push('m.project IN (SELECT value FROM json_each(?))');
+      params.push(JSON.stringify(projects));
+    }
+
+    // Tags are stored as a JSON array
+    if (options.tags && options.tags.length > 0) {
+      const tags = [...new Set(options.tags)];
+      if (options.tagMatch === 'all') {
+        conditions.push('(SELECT COUNT(DISTINCT t.value) FROM json_each(m.tags) t WHERE t.value IN (SELECT value FROM json_each(?))) = ?');
+        params.push(JSON.stringify(tags), tags.length);
+      } else {
+        conditions.push('EXISTS (SELECT 1 FROM json_each(m.tags) t WHERE t.value IN (SELECT value FROM json_each(?)))');
+        params.push(JSON.stringify(tags));
+      }
+    }
+
+    if (options.createdAfter !== undefined) {
+      conditions.push('m.created_at >= ?');
+      params.push(options.createdAfter);
+    }
+
+    if (options.createdBefore !== undefined) {
+      conditions.push('m.created_at < ?');
+      params.push(options.createdBefore);
+    }
+
+    // Filter expired
+    conditions.push('(m.expires_at IS NULL OR m.expires_at > unixepoch())');
+
+    return { sql: conditions.join(' AND '), params };
+  }
+
+  /**
+   * Vector KNN candidates, as memory ID → rank (0 = nearest).
+   * The filter is pushed into vec0 as a rowid constraint, so the k nearest
+   * are taken among matching memories only.
+   */
+  private semanticCandidates(
+    queryEmbedding: number[],
+    k: number,
+    filter: { sql: string; params: unknown[] }
+  ): Map<number, number> {
+    const rows = this.prepare(`
+      SELECT v.rowid as id
+      FROM vec_memories v
+      WHERE v.embedding MATCH ?
+        AND k = ?
+        AND v.rowid IN (SELECT m.id FROM memories m WHERE ${filter.sql} AND m.${this.vectorSpace().sql})
+      ORDER BY v.distance
+    `).all(JSON.stringify(queryEmbedding), k, ...filter.params, ...this.vectorSpace().params) as Array<{ id: number }>;
+
+    return new Map(rows.map((row, rank) => [row.id, rank]));
+  }
+
+  /**
+   * BM25 candidates from the FTS5 index, as memory ID → rank (0 = best).
+   * Content weighs more than reasoning and tags.
+   */
+  private lexicalCandidates(
+    query: string,
+    k: number,
+    filter: { sql: string; params: unknown[] }
+  ): Map<number, number> {
+    const ftsQuery = toFtsQuery(query);
+    if (!ftsQuery) return new Map();
+
+    const rows = this.prepare(`
+      SELECT m.id
+      FROM memories_fts
+      JOIN memories m ON memories_fts.rowid = m.id
+      WHERE memories_fts MATCH ? AND ${filter.sql}
+      ORDER BY bm25(memories_fts, 1.0, 0.5, 0.5)
+      LIMIT ?
+    `).all(ftsQuery, ...filter.params, k) as Array<{ id: number }>;
+
+    return new Map(rows.map((row, rank) => [row.id, rank]));
+  }
+
+  /**
+   * cmem v3: Search one scope of the unified database (the filters in
+   * options), boosting the current project. Up to k semantic (vec0 KNN) and
+   * k lexical (FTS5 BM25) candidates are merged with reciprocal rank fusion;
+   * 'semantic' mode keeps the plain distance score.
+   */
+  private async searchUnifiedDb(
+    query: string,
+    ctx: RecallContext,
+    options: RecallOptions,
+    bucket: RecallBucket,
+    k: number
+  ): Promise<RecallResult[]> {
+    const results: RecallResult[] = [];
+    const mode = options.mode ?? this.config.recall.mode ?? 'hybrid';
+    const filter = this.buildFilterClause(options);
+
+    const semanticRanks = ctx.queryEmbedding
+      ? this.semanticCandidates(ctx.queryEmbedding, k, filter)
+      : new Map<number, number>();
+    const lexicalRanks = mode !== 'semantic'
+      ? this.lexicalCandidates(query, k, filter)
+      : new Map<number, number>();
+
+    const ids = [...new Set([...semanticRanks.keys(), ...lexicalRanks.keys()])];
+    if (ids.length === 0) return results;
+
+    const rows = this.prepare(`
+      SELECT
+        m.id, m.content, m.type, m.project, m.category, m.reasoning, m.source,
+        m.importance, m.confidence, m.created_at, m.last_accessed,
+        m.access_count, m.expires_at, m.supersedes, m.is_obsolete, m.conflicting, m.pinned,
+        m.group_id, m.chunk_index, m.chunk_total, m.headings, m.tags,
+        ${ctx.queryEmbedding ? 'vec_distance_l2(v.embedding, ?)' : 'NULL'} as distance
+      FROM memories m
+      JOIN vec_memories v ON v.rowid = m.id
+      WHERE m.id IN (SELECT value FROM json_each(?))
+    `).all(...(ctx.queryEmbedding ? [JSON.stringify(ctx.queryEmbedding)] : []), JSON.stringify(ids)) as Array<MemoryRow & { distance: number | null }>;
+
+    const fusedLists = mode === 'hybrid' ? 2 : 1;
+
+    for (const row of rows) {
+      const memory = rowToMemory(row);
+      const distance = row.distance ?? Infinity;  // Infinity: not compared (lexical mode)
+
+      // Base relevance: similarity for semantic mode, normalized RRF otherwise
+      const relevance = mode === 'semantic'
+        ? 1 / (1 + distance)
+        : reciprocalRankFusion([semanticRanks.get(row.id), lexicalRanks.get(row.id)]) * (RRF_K + 1) / fusedLists;
+
+      const factors = this.calculateScore(memory, relevance, ctx);
+      const score = Object.values(factors).reduce((product, factor) => product * factor, 1);
+
+      // Exact lexical matches are kept even when the vectors disagree
+      const withinThreshold = distance < this.config.recall.distanceThreshold;
+      const threshold = withinThreshold ? 'within' : lexicalRanks.has(row.id) ? 'keyword-match' : 'exceeded';
+
+      const result: RecallResult = {
+        memory,
+        distance,
+        score,
+        source: row.project,  // project name or null for global
+        bucket,
+        explanation: options.explain ? {
+          distance,
+          semanticRank: semanticRanks.get(row.id) ?? null,
+          lexicalRank: lexicalRanks.get(row.id) ?? null,
+          threshold,
+          factors
+        } : undefined
+      };
+
+      if (threshold === 'exceeded') {
+        ctx.dropped.push(toDropped(result, 'threshold'));
+        continue;
+      }
+
+      results.push(result);
+    }
+
+    return results;
   }
 
   /**
-   * Find a near-duplicate memory by embedding similarity.
-   * Returns the existing memory ID if found, null otherwise.
+   * Score factors of a candidate under the query's scoring profile.
    */
-  private async findNearDuplicate(
-    content: string,
-    embedding: number[],
-    db: Database.Database
-  ): Promise<{ id: number; content: string; importance: number } | null> {
-    if (!this.config.dedup.enabled) return null;
-
-    const threshold = this.config.dedup.similarityThreshold;
+  private calculateScore(memory: Memory, relevance: number, ctx: RecallContext): ScoreFactors {
+    const { profile, currentProject } = ctx;
 
-    const row = db.prepare(`
-      SELECT v.rowid as id, v.distance, m.content, m.importance
-      FROM vec_memories v
-      JOIN memories m ON v.rowid = m.id
-      WHERE v.embedding MATCH ?
-        AND k = 1
-        AND m.is_obsolete = 0
-    `).get(JSON.stringify(embedding)) as { id: number; distance: number; content: string; importance: number } | undefined;
+    // Recency boost
+    let recency = 1;
+    if (this.config.recall.boostRecency) {
+      const ageInDays = (Date.now() / 1000 - memory.createdAt) / 86400;
+      const halfLife = this.config.recall.recencyHalfLifeDays;
+      const recencyBoost = Math.exp(-ageInDays / halfLife);
+      recency = 1 - profile.recency + profile.recency * recencyBoost;
+    }
 
-    if (row && row.distance < threshold) {
-      return { id: row.id, content: row.content, importance: row.importance };
+    // Boost current project memories, and slightly boost global
+    // preferences when in project context
+    let projectBoost = 1;
+    if (currentProject && memory.project === currentProject) {
+      projectBoost = profile.projectBoost;
+    } else if (currentProject && !memory.project && memory.type === 'preference') {
+      projectBoost = profile.globalPreferenceBoost;
     }
-    return null;
+
+    return {
+      // Base score from query relevance (similarity or fused rank, 0-1)
+      relevance: Math.pow(relevance, profile.similarity),
+      recency,
+      // Importance boost (1-5 scale, 5 = full score)
+      importance: Math.max(0, 1 - profile.importance * (5 - memory.importance)),
+      // Access frequency boost (capped)
+      access: 1 + profile.access * Math.min(memory.accessCount, profile.accessCap),
+      confidence: Math.pow(memory.confidence, profile.confidence),
+      type: profile.typeWeights[memory.type] ?? 1,
+      projectBoost
+    };
   }
 
-  async remember(input: MemoryInput): Promise<number[]> {
-    // Check for sensitive data
-    if (this.containsSensitiveData(input.content)) {
-      console.warn('Warning: Sensitive data detected and redacted');
-      input.content = this.sanitizeContent(input.content);
+  /**
+   * Current content and tracked fields of a memory, or null if it doesn't exist.
+   */
+  private snapshot(memoryId: number): MemorySnapshot | null {
+    const row = this.prepare(`SELECT content, ${HISTORY_FIELDS.join(', ')} FROM memories WHERE id = ?`)
+      .get(memoryId) as Record<string, unknown> | undefined;
+    if (!row) return null;
+
+    const fields: Record<string, unknown> = {};
+    for (const field of HISTORY_FIELDS) {
+      fields[field] = row[field];
     }
+    return { content: row.content as string, fields };
+  }
 
-    // Determine project (NULL for global/preference types)
-    const project = input.project ?? this.detectProject();
-    const isGlobal = input.type === 'preference' || !project;
-    const projectValue = isGlobal ? null : project;
-
-    const db = this.getDb();
+  private recordHistory(
+    memoryId: number,
+    action: MemoryAction,
+    before: MemorySnapshot | null,
+    after: MemorySnapshot | null
+  ): void {
+    this.prepare(`
+      INSERT INTO memory_history (memory_id, version, action, actor, old_content, new_content, old_fields, new_fields)
+      VALUES (?, (SELECT COALESCE(MAX(version), 0) + 1 FROM memory_history WHERE memory_id = ?), ?, ?, ?, ?, ?, ?)
+    `).run(
+      memoryId,
+      memoryId,
+      action,
+      this.actor,
+      before?.content ?? null,
+      after?.content ?? null,
+      before ? JSON.stringify(before.fields) : null,
+      after ? JSON.stringify(after.fields) : null
+    );
+  }
 
-    // Chunk if needed
-    const chunks = this.chunker.chunk(input.content);
-    const memoryIds: number[] = [];
+  /**
+   * Apply a change to one memory and log it in memory_history.
+   * Runs inside a transaction (nested calls become savepoints).
+   * No-op for unknown IDs.
+   */
+  private mutate(memoryId: number, action: MemoryAction, change: () => void): void {
+    this.getDb().transaction(() => {
+      const before = this.snapshot(memoryId);
+      if (!before) return;
+      change();
+      this.recordHistory(memoryId, action, before, this.snapshot(memoryId));
+      this.clearResolvedConflicts();
+    })();
+  }
 
-    try {
-      for (const chunk of chunks) {
-        const embedding = await this.embedder.embed(chunk.content);
+  /**
+   * Delete memories and their vectors, logging each deletion.
+   */
+  private deleteMemories(memoryIds: number[]): void {
+    const deleteVector = this.prepare('DELETE FROM vec_memories WHERE rowid = ?');
+    const deleteMemory = this.prepare('DELETE FROM memories WHERE id = ?');
+
+    this.getDb().transaction(() => {
+      for (const id of memoryIds) {
+        const before = this.snapshot(id);
+        if (!before) continue;
+        deleteVector.run(BigInt(id));
+        deleteMemory.run(id);
+        this.recordHistory(id, 'delete', before, null);
+      }
+      this.clearResolvedConflicts();
+    })();
+  }
 
-        // Dedup check: update existing if near-duplicate found
-        if (!input.skipDedup) {
-          const existing = await this.findNearDuplicate(chunk.content, embedding, db);
-          if (existing) {
-            // Update if new content is longer (preferLonger) or importance is higher
-            const shouldUpdate = (this.config.dedup.preferLonger && chunk.content.length > existing.content.length)
-              || (input.importance && input.importance > existing.importance);
+  async markObsolete(memoryId: number, _project?: string | null): Promise<void> {
+    this.mutate(memoryId, 'obsolete', () => {
+      this.prepare('UPDATE memories SET is_obsolete = 1 WHERE id = ?').run(memoryId);
+    });
+  }
 
-            if (shouldUpdate) {
-              db.prepare('UPDATE memories SET content = ?, importance = MAX(importance, ?) WHERE id = ?')
-                .run(chunk.content, input.importance ?? 3, existing.id);
-              db.prepare('UPDATE vec_memories SET embedding = ? WHERE rowid = ?')
-                .run(JSON.stringify(embedding), BigInt(existing.id));
-            }
-            memoryIds.push(existing.id);
-            continue;
-          }
-        }
+  async forget(memoryId: number, _project?: string | null): Promise<void> {
+    this.deleteMemories([memoryId]);
+  }
 
-        // Add chunk indicator if multi-part
-        let storedContent = chunk.content;
-        if (chunk.total > 1) {
-          storedContent = `[Part ${chunk.index + 1}/${chunk.total}] ${chunk.content}`;
-        }
+  async forgetByCategory(category: string, project?: string | null, dryRun: boolean = false): Promise<number> {
+    return this.forgetWhere('category', category, project, dryRun);
+  }
 
-        // Insert memory with project column
-        const stmt = db.prepare(`
-          INSERT INTO memories (content, type, project, category, reasoning, source, importance, confidence, tags, expires_at, supersedes)
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-        `);
+  async forgetBySource(source: string, project?: string | null, dryRun: boolean = false): Promise<number> {
+    return this.forgetWhere('source', source, project, dryRun);
+  }
 
-        const result = stmt.run(
-          storedContent,
-          input.type || 'fact',
-          projectValue,
-          input.category || null,
-          input.reasoning || null,
-          input.source || 'manual',
-          input.importance ?? 3,
-          input.confidence ?? 1.0,
-          JSON.stringify(input.tags || []),
-          input.expiresAt || null,
-          input.supersedes || null
-        );
-
-        const memoryId = result.lastInsertRowid;
-
-        // Insert embedding (vec0 requires BigInt for rowid)
-        const vecStmt = db.prepare(`
-          INSERT INTO vec_memories (rowid, embedding)
-          VALUES (?, ?)
-        `);
-        vecStmt.run(BigInt(memoryId), JSON.stringify(embedding));
+  /**
+   * Count (and unless dryRun, delete) memories matching column = value,
+   * optionally scoped to a project. Deletes run in a single transaction.
+   */
+  private forgetWhere(
+    column: 'category' | 'source',
+    value: string,
+    project: string | null | undefined,
+    dryRun: boolean
+  ): number {
+    // Build query with optional project filter
+    let whereClause = `${column} = ?`;
+    const params: unknown[] = [value];
+
+    if (project !== undefined) {
+      if (project === null) {
+        whereClause += ' AND project IS NULL';
+      } else {
+        whereClause += ' AND project = ?';
+        params.push(project);
+      }
+    }
 
-        // Mark superseded memory as obsolete
-        if (input.supersedes) {
-          db.prepare('UPDATE memories SET is_obsolete = 1 WHERE id = ?').run(input.supersedes);
-        }
+    const ids = (this.prepare(`SELECT id FROM memories WHERE ${whereClause}`)
+      .all(...params) as Array<{ id: number }>).map(r => r.id);
 
-        memoryIds.push(Number(memoryId));
-      }
-    } finally {
-      db.close();
+    if (!dryRun && ids.length > 0) {
+      this.deleteMemories(ids);
     }
 
-    return memoryIds;
+    return ids.length;
   }
 
-  async recall(query: string, options: RecallOptions = {}): Promise<RecallResult[]> {
-    const project = this.detectProject();
-    const queryEmbedding = await this.embedder.embed(query);
-
-    // cmem v3: Search unified DB, prioritize current project
-    const results = await this.searchUnifiedDb(queryEmbedding, project, options);
+  async update(memoryId: number, content: string, _project?: string | null): Promise<void> {
+    await this.assertIndexInSync();
+    const embedding = await this.embed(content);
 
-    // Sort by score
-    results.sort((a, b) => b.score - a.score);
+    this.mutate(memoryId, 'update', () => {
+      this.prepare('UPDATE memories SET content = ? WHERE id = ?').run(content, memoryId);
+      this.prepare('UPDATE vec_memories SET embedding = ? WHERE rowid = ?').run(
+        JSON.stringify(embedding),
+        BigInt(memoryId)
+      );
+      this.recordVectorModel(memoryId, embedding);
+    });
+  }
 
-    // Filter by distance threshold
-    const filtered = results.filter(r => r.distance < this.config.recall.distanceThreshold);
+  /**
+   * IDs of the chunks in the same group as a memory, in chunk order.
+   * Just the memory for ungrouped ones, empty if it doesn't exist.
+   */
+  private groupMemberIds(memoryId: number): number[] {
+    const row = this.prepare('SELECT id, group_id FROM memories WHERE id = ?').get(memoryId) as { id: number; group_id: number | null } | undefined;
+    if (!row) return [];
+    if (row.group_id === null) return [row.id];
 
-    // Apply limit
-    const limit = options.limit || (this.config.recall.projectResults + this.config.recall.globalResults);
-    return filtered.slice(0, limit);
+    return (this.prepare('SELECT id FROM memories WHERE group_id = ? ORDER BY chunk_index, id')
+      .all(row.group_id) as Array<{ id: number }>).map(r => r.id);
   }
 
   /**
-   * cmem v3: Search unified database with optional project prioritization
+   * All chunks of the document a memory belongs to, in order.
    */
-  private async searchUnifiedDb(
-    queryEmbedding: number[],
-    currentProject: string | null,
-    options: RecallOptions
-  ): Promise<RecallResult[]> {
-    const db = this.getDb();
-    const results: RecallResult[] = [];
+  async getChunkGroup(memoryId: number): Promise<Memory[]> {
+    const getMemory = this.prepare('SELECT * FROM memories WHERE id = ?');
+    return this.groupMemberIds(memoryId).map(id => rowToMemory(getMemory.get(id) as MemoryRow));
+  }
 
-    try {
-      const totalLimit = this.config.recall.projectResults + this.config.recall.globalResults;
-
-      let sql = `
-        SELECT
-          m.id, m.content, m.type, m.project, m.category, m.reasoning, m.source,
-          m.importance, m.confidence, m.created_at, m.last_accessed,
-          m.access_count, m.expires_at, m.supersedes, m.is_obsolete, m.tags,
-          v.distance
-        FROM vec_memories v
-        JOIN memories m ON v.rowid = m.id
-        WHERE v.embedding MATCH ?
-          AND k = ?
-      `;
-
-      const params: unknown[] = [JSON.stringify(queryEmbedding), totalLimit * 2];
-
-      if (!options.includeObsolete) {
-        sql += ' AND m.is_obsolete = 0';
-      }
+  /**
+   * forget() for every chunk of the memory's document. Returns the number deleted.
+   */
+  async forgetGroup(memoryId: number): Promise<number> {
+    const ids = this.groupMemberIds(memoryId);
+    this.deleteMemories(ids);
+    return ids.length;
+  }
 
-      if (options.type) {
-        sql += ' AND m.type = ?';
-        params.push(options.type);
-      }
+  /**
+   * markObsolete() for every chunk of the memory's document. Returns the number marked.
+   */
+  async markGroupObsolete(memoryId: number): Promise<number> {
+    const ids = this.groupMemberIds(memoryId);
+    const markObsolete = this.prepare('UPDATE memories SET is_obsolete = 1 WHERE id = ?');
 
-      if (options.minImportance) {
-        sql += ' AND m.importance >= ?';
-        params.push(options.minImportance);
+    this.getDb().transaction(() => {
+      for (const id of ids) {
+        this.mutate(id, 'obsolete', () => markObsolete.run(id));
       }
+    })();
+    return ids.length;
+  }
 
-      // Filter expired
-      sql += ' AND (m.expires_at IS NULL OR m.expires_at > unixepoch())';
-
-      sql += ' ORDER BY v.distance LIMIT ?';
-      params.push(totalLimit * 2);
-
-      const rows = db.prepare(sql).all(...params) as Array<{
-        id: number;
-        content: string;
-        type: MemoryType;
-        project: string | null;
-        category: string | null;
-        reasoning: string | null;
-        source: string;
-        importance: number;
-        confidence: number;
-        created_at: number;
-        last_accessed: number | null;
-        access_count: number;
-        expires_at: number | null;
-        supersedes: number | null;
-        is_obsolete: number;
-        tags: string;
-        distance: number;
-      }>;
-
-      for (const row of rows) {
-        const memory: Memory = {
-          id: row.id,
-          content: row.content,
-          type: row.type,
-          project: row.project || undefined,
-          category: row.category || undefined,
-          reasoning: row.reasoning || undefined,
-          source: row.source as Memory['source'],
-          importance: row.importance,
-          confidence: row.confidence,
-          createdAt: row.created_at,
-          lastAccessed: row.last_accessed || undefined,
-          accessCount: row.access_count,
-          expiresAt: row.expires_at || undefined,
-          supersedes: row.supersedes || undefined,
-          isObsolete: row.is_obsolete === 1,
-          tags: JSON.parse(row.tags)
-        };
-
-        // Calculate score with project boost
-        let score = this.calculateScore(memory, row.distance);
-
-        // Boost current project memories
-        if (currentProject && row.project === currentProject) {
-          score *= 1.3;  // 30% boost for same project
-        }
+  /**
+   * Replace the whole document a memory belongs to. The new content is
+   * re-chunked: existing chunks are updated in place, extra chunks are
+   * created with the first chunk's metadata, leftover chunks are deleted.
+   * Returns the IDs of the document's chunks.
+   */
+  async updateGroup(memoryId: number, content: string): Promise<number[]> {
+    await this.assertIndexInSync();
+    const members = await this.getChunkGroup(memoryId);
+    if (members.length === 0) {
+      throw new Error(`Memory #${memoryId} not found`);
+    }
 
-        // Slightly boost global memories (preferences) when in project context
-        if (currentProject && row.project === null && row.type === 'preference') {
-          score *= 1.1;  // 10% boost for global preferences
+    const chunks = await this.chunk(content);
+    const embeddings = await this.embedBatch(chunks.map(c => c.content));
+
+    const first = members[0];
+    const groupId = chunks.length > 1 ? (first.groupId ?? first.id) : null;
+    // Ingested Markdown starts its breadcrumb with the file path: kept
+    const root = first.source === 'auto:ingest' && first.headings?.length ? [first.headings[0]] : [];
+    const template: MemoryInput = {
+      content,
+      type: first.type,
+      category: first.category,
+      reasoning: first.reasoning,
+      source: first.source,
+      importance: first.importance,
+      confidence: first.confidence,
+      tags: first.tags,
+      expiresAt: first.expiresAt,
+      headings: root
+    };
+
+    return this.getDb().transaction((): number[] => {
+      const ids: number[] = [];
+
+      chunks.forEach((chunk, i) => {
+        const chunkInfo = groupId === null ? null : { groupId, index: chunk.index, total: chunk.total, headings: chunk.headings };
+        const headings = [...root, ...chunk.headings ?? []];
+
+        if (i < members.length) {
+          const id = members[i].id;
+          this.mutate(id, 'update', () => {
+            this.prepare('UPDATE memories SET content = ?, group_id = ?, chunk_index = ?, chunk_total = ?, headings = ? WHERE id = ?')
+              .run(
+                chunk.content,
+                chunkInfo?.groupId ?? null,
+                chunkInfo?.index ?? null,
+                chunkInfo?.total ?? null,
+                headings.length ? JSON.stringify(headings) : null,
+                id
+              );
+            this.prepare('UPDATE vec_memories SET embedding = ? WHERE rowid = ?')
+              .run(JSON.stringify(embeddings[i]), BigInt(id));
+            this.recordVectorModel(id, embeddings[i]);
+          });
+          ids.push(id);
+        } else {
+          ids.push(this.insertMemory(template, first.project ?? null, chunk.content, embeddings[i], null, chunkInfo));
         }
+      });
 
-        results.push({
-          memory,
-          distance: row.distance,
-          score,
-          source: row.project  // project name or null for global
-        });
+      this.deleteMemories(members.slice(chunks.length).map(m => m.id));
+      return ids;
+    })();
+  }
 
-        // Update access stats
-        db.prepare(`
-          UPDATE memories
-          SET last_accessed = unixepoch(), access_count = access_count + 1
-          WHERE id = ?
-        `).run(row.id);
-      }
-    } finally {
-      db.close();
+  /**
+   * Pin or unpin a memory: pinned memories are injected by the recall hook
+   * in every session, whatever the prompt.
+   */
+  async pin(memoryId: number, pinned: boolean = true): Promise<void> {
+    if (!this.prepare('SELECT 1 FROM memories WHERE id = ?').get(memoryId)) {
+      throw new Error(`Memory #${memoryId} not found`);
     }
-
-    return results;
+    this.mutate(memoryId, pinned ? 'pin' : 'unpin', () => {
+      this.prepare('UPDATE memories SET pinned = ? WHERE id = ?').run(pinned ? 1 : 0, memoryId);
+    });
   }
 
-  private calculateScore(memory: Memory, distance: number): number {
-    // Base score from similarity (lower distance = higher score)
-    let score = 1 / (1 + distance);
+  async unpin(memoryId: number): Promise<void> {
+    return this.pin(memoryId, false);
+  }
 
-    // Recency boost
-    if (this.config.recall.boostRecency) {
-      const ageInDays = (Date.now() / 1000 - memory.createdAt) / 86400;
-      const halfLife = this.config.recall.recencyHalfLifeDays;
-      const recencyBoost = Math.exp(-ageInDays / halfLife);
-      score *= (0.7 + 0.3 * recencyBoost);
+  /**
+   * Active pinned memories of a project plus the global ones (global only
+   * for null), project first, then by importance. With a token budget
+   * (default: recall.pinnedBudgetTokens), memories that don't fit are skipped.
+   */
+  async getPinned(project: string | null, budgetTokens?: number): Promise<Memory[]> {
+    const rows = this.prepare(`
+      SELECT * FROM memories
+      WHERE pinned = 1
+        AND is_obsolete = 0
+        AND (expires_at IS NULL OR expires_at > unixepoch())
+        AND (project IS NULL OR project = ?)
+      ORDER BY project IS NULL, importance DESC, created_at DESC
+    `).all(project) as MemoryRow[];
+
+    let remaining = budgetTokens ?? this.config.recall.pinnedBudgetTokens ?? DEFAULT_PINNED_BUDGET_TOKENS;
+    const pinned: Memory[] = [];
+    for (const row of rows) {
+      // Measured as injected, labels included
+      const memory = rowToMemory(row);
+      const tokens = this.tokenizer.countTokens(formatMemory(memory, memory.content, memory.reasoning));
+      if (tokens > remaining) continue;
+      remaining -= tokens;
+      pinned.push(memory);
     }
+    return pinned;
+  }
 
-    // Importance boost (1-5 scale)
-    score *= (0.5 + 0.1 * memory.importance);
-
-    // Access frequency boost (capped at 10)
-    score *= (1 + 0.05 * Math.min(memory.accessCount, 10));
-
-    // Confidence factor
-    score *= memory.confidence;
+  /**
+   * Add a directed link: sourceId <relation> targetId. Idempotent.
+   */
+  async link(sourceId: number, targetId: number, relation: MemoryRelation): Promise<void> {
+    if (sourceId === targetId) {
+      throw new Error('Cannot link a memory to itself');
+    }
+    for (const id of [sourceId, targetId]) {
+      if (!this.prepare('SELECT 1 FROM memories WHERE id = ?').get(id)) {
+        throw new Error(`Memory #${id} not found`);
+      }
+    }
 
-    return score;
+    this.prepare(`
+      INSERT OR IGNORE INTO memory_links (source_id, target_id, relation)
+      VALUES (?, ?, ?)
+    `).run(sourceId, targetId, relation);
   }
 
-  async markObsolete(memoryId: number, _project?: string | null): Promise<void> {
-    const db = this.getDb();
-    try {
-      db.prepare('UPDATE memories SET is_obsolete = 1 WHERE id = ?').run(memoryId);
-    } finally {
-      db.close();
+  /**
+   * Remove links from sourceId to targetId (only the given relation if set).
+   * Returns the number of links removed.
+   */
+  async unlink(sourceId: number, targetId: number, relation?: MemoryRelation): Promise<number> {
+    if (relation) {
+      return this.prepare('DELETE FROM memory_links WHERE source_id = ? AND target_id = ? AND relation = ?')
+        .run(sourceId, targetId, relation).changes;
     }
+    return this.prepare('DELETE FROM memory_links WHERE source_id = ? AND target_id = ?')
+      .run(sourceId, targetId).changes;
   }
 
-  async forget(memoryId: number, _project?: string | null): Promise<void> {
-    const db = this.getDb();
-    try {
-      db.prepare('DELETE FROM vec_memories WHERE rowid = ?').run(BigInt(memoryId));
-      db.prepare('DELETE FROM memories WHERE id = ?').run(memoryId);
-    } finally {
-      db.close();
-    }
+  /**
+   * Links touching a memory, in either direction.
+   */
+  async getLinks(memoryId: number): Promise<MemoryLink[]> {
+    const rows = this.prepare(`
+      SELECT source_id, target_id, relation, created_at
+      FROM memory_links
+      WHERE source_id = ? OR target_id = ?
+      ORDER BY created_at
+    `).all(memoryId, memoryId) as Array<{ source_id: number; target_id: number; relation: MemoryRelation; created_at: number }>;
+
+    return rows.map(row => ({
+      sourceId: row.source_id,
+      targetId: row.target_id,
+      relation: row.relation,
+      createdAt: row.created_at
+    }));
   }
 
-  async forgetByCategory(category: string, project?: string | null, dryRun: boolean = false): Promise<number> {
-    const db = this.getDb();
-    try {
-      // Build query with optional project filter
-      let countSql = 'SELECT COUNT(*) as count FROM memories WHERE category = ?';
-      const params: unknown[] = [category];
-
-      if (project !== undefined) {
-        if (project === null) {
-          countSql += ' AND project IS NULL';
-        } else {
-          countSql += ' AND project = ?';
-          params.push(project);
-        }
-      }
+  /**
+   * Breadth-first walk of the link graph around a memory, following edges
+   * in both directions up to `depth` hops.
+   */
+  async getGraph(memoryId: number, depth: number = 1): Promise<MemoryGraph> {
+    const getMemory = this.prepare('SELECT * FROM memories WHERE id = ?');
+    const root = getMemory.get(memoryId) as MemoryRow | undefined;
+    if (!root) {
+      throw new Error(`Memory #${memoryId} not found`);
+    }
+
+    const nodes = new Map<number, Memory>([[memoryId, rowToMemory(root)]]);
+    const links = new Map<string, MemoryLink>();
+    let frontier = [memoryId];
+
+    for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+      const next: number[] = [];
+
+      for (const id of frontier) {
+        for (const link of await this.getLinks(id)) {
+          links.set(`${link.sourceId}:${link.targetId}:${link.relation}`, link);
 
-      const countResult = db.prepare(countSql).get(...params) as { count: number };
-      const count = countResult.count;
-
-      if (!dryRun && count > 0) {
-        let deleteSql = 'DELETE FROM vec_memories WHERE rowid IN (SELECT id FROM memories WHERE category = ?';
-        let deleteMemsSql = 'DELETE FROM memories WHERE category = ?';
-        const delParams: unknown[] = [category];
-
-        if (project !== undefined) {
-          if (project === null) {
-            deleteSql += ' AND project IS NULL';
-            deleteMemsSql += ' AND project IS NULL';
-          } else {
-            deleteSql += ' AND project = ?';
-            deleteMemsSql += ' AND project = ?';
-            delParams.push(project);
+          const other = link.sourceId === id ? link.targetId : link.sourceId;
+          if (nodes.has(other)) continue;
+
+          const row = getMemory.get(other) as MemoryRow | undefined;
+          if (row) {
+            nodes.set(other, rowToMemory(row));
+            next.push(other);
           }
         }
-        deleteSql += ')';
-
-        db.prepare(deleteSql).run(...delParams);
-        db.prepare(deleteMemsSql).run(...delParams);
       }
 
-      return count;
-    } finally {
-      db.close();
+      frontier = next;
     }
-  }
 
-  async forgetBySource(source: string, project?: string | null, dryRun: boolean = false): Promise<number> {
-    const db = this.getDb();
-    try {
-      let countSql = 'SELECT COUNT(*) as count FROM memories WHERE source = ?';
-      const params: unknown[] = [source];
+    return { root: memoryId, nodes: [...nodes.values()], links: [...links.values()] };
+  }
 
-      if (project !== undefined) {
-        if (project === null) {
-          countSql += ' AND project IS NULL';
-        } else {
-          countSql += ' AND project = ?';
-          params.push(project);
-        }
-      }
+  /**
+   * Edit timeline of a memory, oldest first. Kept after the memory is deleted.
+   */
+  async getHistory(memoryId: number): Promise<MemoryHistoryEntry[]> {
+    const rows = this.prepare(`
+      SELECT * FROM memory_history WHERE memory_id = ? ORDER BY version
+    `).all(memoryId) as Array<{
+      memory_id: number;
+      version: number;
+      action: MemoryAction;
+      actor: string;
+      old_content: string | null;
+      new_content: string | null;
+      old_fields: string | null;
+      new_fields: string | null;
+      created_at: number;
+    }>;
+
+    return rows.map(row => ({
+      memoryId: row.memory_id,
+      version: row.version,
+      action: row.action,
+      actor: row.actor,
+      oldContent: row.old_content,
+      newContent: row.new_content,
+      oldFields: row.old_fields ? JSON.parse(row.old_fields) : null,
+      newFields: row.new_fields ? JSON.parse(row.new_fields) : null,
+      createdAt: row.created_at
+    }));
+  }
 
-      const countResult = db.prepare(countSql).get(...params) as { count: number };
-      const count = countResult.count;
-
-      if (!dryRun && count > 0) {
-        let deleteSql = 'DELETE FROM vec_memories WHERE rowid IN (SELECT id FROM memories WHERE source = ?';
-        let deleteMemsSql = 'DELETE FROM memories WHERE source = ?';
-        const delParams: unknown[] = [source];
-
-        if (project !== undefined) {
-          if (project === null) {
-            deleteSql += ' AND project IS NULL';
-            deleteMemsSql += ' AND project IS NULL';
-          } else {
-            deleteSql += ' AND project = ?';
-            deleteMemsSql += ' AND project = ?';
-            delParams.push(project);
-          }
-        }
-        deleteSql += ')';
+  /**
+   * Roll a memory back to the state it had after history version `version`.
+   * Version 0 is the state before the first recorded change (memories that
+   * predate the history table). Deleted memories are restored under their
+   * original ID. Re-embeds when the content changes.
+   */
+  async revert(memoryId: number, version: number): Promise<void> {
+    await this.assertIndexInSync();
+    const history = await this.getHistory(memoryId);
+    if (history.length === 0) {
+      throw new Error(`No history for memory #${memoryId}`);
+    }
 
-        db.prepare(deleteSql).run(...delParams);
-        db.prepare(deleteMemsSql).run(...delParams);
+    let target: MemorySnapshot | null;
+    if (version === 0) {
+      const first = history[0];
+      target = first.oldContent !== null && first.oldFields
+        ? { content: first.oldContent, fields: first.oldFields }
+        : null;
+    } else {
+      const entry = history.find(h => h.version === version);
+      if (!entry) {
+        throw new Error(`Memory #${memoryId} has no version ${version}`);
       }
+      target = entry.newContent !== null && entry.newFields
+        ? { content: entry.newContent, fields: entry.newFields }
+        : null;
+    }
 
-      return count;
-    } finally {
-      db.close();
+    if (!target) {
+      throw new Error(`Memory #${memoryId} did not exist at version ${version}`);
     }
-  }
 
-  async update(memoryId: number, content: string, _project?: string | null): Promise<void> {
-    const db = this.getDb();
-    try {
-      const embedding = await this.embedder.embed(content);
+    const current = this.snapshot(memoryId);
+    const embedding = !current || current.content !== target.content
+      ? await this.embed(target.content)
+      : null;
+    const restored = target;
+
+    this.getDb().transaction(() => {
+      // Fields added after the entry was recorded keep their current value
+      const fields = HISTORY_FIELDS.filter(f => f in restored.fields);
+      const columns = ['content', ...fields];
+      const values = [restored.content, ...fields.map(f => restored.fields[f] ?? null)];
+
+      if (current) {
+        this.prepare(`UPDATE memories SET ${columns.map(c => `${c} = ?`).join(', ')} WHERE id = ?`)
+          .run(...values, memoryId);
+        if (embedding) {
+          this.prepare('UPDATE vec_memories SET embedding = ? WHERE rowid = ?')
+            .run(JSON.stringify(embedding), BigInt(memoryId));
+          this.recordVectorModel(memoryId, embedding);
+        }
+      } else {
+        this.prepare(`INSERT INTO memories (id, ${columns.join(', ')}) VALUES (?, ${columns.map(() => '?').join(', ')})`)
+          .run(memoryId, ...values);
+        this.prepare('INSERT INTO vec_memories (rowid, embedding) VALUES (?, ?)')
+          .run(BigInt(memoryId), JSON.stringify(embedding));
+        this.recordVectorModel(memoryId, embedding!);
+      }
 
-      db.prepare('UPDATE memories SET content = ? WHERE id = ?').run(content, memoryId);
-      db.prepare('UPDATE vec_memories SET embedding = ? WHERE rowid = ?').run(
-        JSON.stringify(embedding),
-        BigInt(memoryId)
-      );
-    } finally {
-      db.close();
-    }
+      this.recordHistory(memoryId, 'revert', current, this.snapshot(memoryId));
+      this.clearResolvedConflicts();
+    })();
   }
 
   /**
@@ -520,131 +2169,78 @@ export class MemoryManager {
    * @param allProjects If true, list all memories regardless of project
    */
   async listRecent(limit: number = 10, project?: string | null, allProjects: boolean = false): Promise<Memory[]> {
-    const db = this.getDb();
-    try {
-      let sql = `
-        SELECT * FROM memories
-        WHERE is_obsolete = 0
-      `;
-      const params: unknown[] = [];
-
-      if (!allProjects) {
-        if (project === undefined) {
-          // Use detected project
-          const detected = this.detectProject();
-          if (detected) {
-            sql += ' AND (project = ? OR project IS NULL)';
-            params.push(detected);
-          }
-        } else if (project === null) {
-          sql += ' AND project IS NULL';
-        } else {
-          sql += ' AND project = ?';
-          params.push(project);
+    let sql = `
+      SELECT * FROM memories
+      WHERE is_obsolete = 0
+    `;
+    const params: unknown[] = [];
+
+    if (!allProjects) {
+      if (project === undefined) {
+        // Use detected project
+        const detected = this.detectProject();
+        if (detected) {
+          sql += ' AND (project = ? OR project IS NULL)';
+          params.push(detected);
         }
+      } else if (project === null) {
+        sql += ' AND project IS NULL';
+      } else {
+        sql += ' AND project = ?';
+        params.push(project);
       }
-
-      sql += ' ORDER BY created_at DESC LIMIT ?';
-      params.push(limit);
-
-      const rows = db.prepare(sql).all(...params) as Array<{
-        id: number;
-        content: string;
-        type: MemoryType;
-        project: string | null;
-        category: string | null;
-        reasoning: string | null;
-        source: string;
-        importance: number;
-        confidence: number;
-        created_at: number;
-        last_accessed: number | null;
-        access_count: number;
-        expires_at: number | null;
-        supersedes: number | null;
-        is_obsolete: number;
-        tags: string;
-      }>;
-
-      return rows.map(row => ({
-        id: row.id,
-        content: row.content,
-        type: row.type,
-        project: row.project || undefined,
-        category: row.category || undefined,
-        reasoning: row.reasoning || undefined,
-        source: row.source as Memory['source'],
-        importance: row.importance,
-        confidence: row.confidence,
-        createdAt: row.created_at,
-        lastAccessed: row.last_accessed || undefined,
-        accessCount: row.access_count,
-        expiresAt: row.expires_at || undefined,
-        supersedes: row.supersedes || undefined,
-        isObsolete: row.is_obsolete === 1,
-        tags: JSON.parse(row.tags)
-      }));
-    } finally {
-      db.close();
     }
-  }
 
-  async garbageCollect(project?: string | null): Promise<number> {
-    const db = this.getDb();
-    let deleted = 0;
+    sql += ' ORDER BY created_at DESC LIMIT ?';
+    params.push(limit);
 
-    try {
-      const maxAge = this.config.gc.maxAgeUnusedDays * 86400;
-      const minConfidence = this.config.gc.minConfidence;
-      const cutoff = Math.floor(Date.now() / 1000) - maxAge;
+    const rows = this.prepare(sql).all(...params) as MemoryRow[];
 
-      let deleteSql = `
-        DELETE FROM memories
-        WHERE (last_accessed IS NULL OR last_accessed < ?)
-          AND confidence < ?
-          AND access_count = 0
-      `;
-      const params: unknown[] = [cutoff, minConfidence];
+    return rows.map(rowToMemory);
+  }
 
-      if (project !== undefined) {
-        if (project === null) {
-          deleteSql += ' AND project IS NULL';
-        } else {
-          deleteSql += ' AND project = ?';
-          params.push(project);
-        }
+  async garbageCollect(project?: string | null): Promise<number> {
+    const maxAge = this.config.gc.maxAgeUnusedDays * 86400;
+    const minConfidence = this.config.gc.minConfidence;
+    const cutoff = Math.floor(Date.now() / 1000) - maxAge;
+
+    let projectClause = '';
+    const projectParams: unknown[] = [];
+
+    if (project !== undefined) {
+      if (project === null) {
+        projectClause = ' AND project IS NULL';
+      } else {
+        projectClause = ' AND project = ?';
+        projectParams.push(project);
       }
+    }
 
-      const result = db.prepare(deleteSql).run(...params);
-      deleted = result.changes;
+    // Unused low-confidence memories, plus expired ones
+    const staleSql = `
+      SELECT id FROM memories
+      WHERE (((last_accessed IS NULL OR last_accessed < ?)
+          AND confidence < ?
+          AND access_count = 0)
+        OR (expires_at IS NOT NULL AND expires_at < unixepoch()))${projectClause}
+    `;
+
+    return this.getDb().transaction((): number => {
+      const ids = (this.prepare(staleSql).all(cutoff, minConfidence, ...projectParams) as Array<{ id: number }>)
+        .map(r => r.id);
+      this.deleteMemories(ids);
 
       // Clean up orphaned vectors
-      db.exec(`
+      this.prepare(`
         DELETE FROM vec_memories
         WHERE rowid NOT IN (SELECT id FROM memories)
-      `);
-
-      // Delete expired memories
-      let expiredSql = 'DELETE FROM memories WHERE expires_at IS NOT NULL AND expires_at < unixepoch()';
-      const expiredParams: unknown[] = [];
-
-      if (project !== undefined) {
-        if (project === null) {
-          expiredSql += ' AND project IS NULL';
-        } else {
-          expiredSql += ' AND project = ?';
-          expiredParams.push(project);
-        }
-      }
-
-      const expiredResult = db.prepare(expiredSql).run(...expiredParams);
-      deleted += expiredResult.changes;
+      `).run();
 
-    } finally {
-      db.close();
-    }
+      // Access log entries older than the unused-memory window
+      this.prepare('DELETE FROM access_log WHERE accessed_at < ?').run(cutoff);
 
-    return deleted;
+      return ids.length;
+    })();
   }
 
   async getStats(project?: string | null, allProjects: boolean = false): Promise<{
@@ -654,55 +2250,97 @@ export class MemoryManager {
     obsolete: number;
     avgImportance: number;
   }> {
-    const db = this.getDb();
-    try {
-      let whereClause = '';
-      const params: unknown[] = [];
-
-      if (!allProjects) {
-        if (project === undefined) {
-          const detected = this.detectProject();
-          if (detected) {
-            whereClause = ' WHERE (project = ? OR project IS NULL)';
-            params.push(detected);
-          }
-        } else if (project === null) {
-          whereClause = ' WHERE project IS NULL';
-        } else {
-          whereClause = ' WHERE project = ?';
-          params.push(project);
+    let whereClause = '';
+    const params: unknown[] = [];
+
+    if (!allProjects) {
+      if (project === undefined) {
+        const detected = this.detectProject();
+        if (detected) {
+          whereClause = ' WHERE (project = ? OR project IS NULL)';
+          params.push(detected);
         }
+      } else if (project === null) {
+        whereClause = ' WHERE project IS NULL';
+      } else {
+        whereClause = ' WHERE project = ?';
+        params.push(project);
       }
+    }
 
-      const total = (db.prepare(`SELECT COUNT(*) as count FROM memories${whereClause}`).get(...params) as { count: number }).count;
-
-      const obsoleteClause = whereClause ? `${whereClause} AND is_obsolete = 1` : ' WHERE is_obsolete = 1';
-      const obsolete = (db.prepare(`SELECT COUNT(*) as count FROM memories${obsoleteClause}`).get(...params) as { count: number }).count;
+    const total = (this.prepare(`SELECT COUNT(*) as count FROM memories${whereClause}`).get(...params) as { count: number }).count;
 
-      const activeClause = whereClause ? `${whereClause} AND is_obsolete = 0` : ' WHERE is_obsolete = 0';
-      const avgImportance = (db.prepare(`SELECT AVG(importance) as avg FROM memories${activeClause}`).get(...params) as { avg: number | null }).avg || 0;
+    const obsoleteClause = whereClause ? `${whereClause} AND is_obsolete = 1` : ' WHERE is_obsolete = 1';
+    const obsolete = (this.prepare(`SELECT COUNT(*) as count FROM memories${obsoleteClause}`).get(...params) as { count: number }).count;
 
-      const typeRows = db.prepare(`SELECT type, COUNT(*) as count FROM memories${activeClause} GROUP BY type`).all(...params) as Array<{ type: string; count: number }>;
-      const byType: Record<string, number> = {};
-      for (const row of typeRows) {
-        byType[row.type] = row.count;
-      }
+    const activeClause = whereClause ? `${whereClause} AND is_obsolete = 0` : ' WHERE is_obsolete = 0';
+    const avgImportance = (this.prepare(`SELECT AVG(importance) as avg FROM memories${activeClause}`).get(...params) as { avg: number | null }).avg || 0;
 
-      // New: stats by project
-      const projectRows = db.prepare(`
-        SELECT COALESCE(project, 'global') as proj, COUNT(*) as count
-        FROM memories WHERE is_obsolete = 0
-        GROUP BY project
-      `).all() as Array<{ proj: string; count: number }>;
-      const byProject: Record<string, number> = {};
-      for (const row of projectRows) {
-        byProject[row.proj] = row.count;
-      }
+    const typeRows = this.prepare(`SELECT type, COUNT(*) as count FROM memories${activeClause} GROUP BY type`).all(...params) as Array<{ type: string; count: number }>;
+    const byType: Record<string, number> = {};
+    for (const row of typeRows) {
+      byType[row.type] = row.count;
+    }
 
-      return { total, byType, byProject, obsolete, avgImportance };
-    } finally {
-      db.close();
+    // New: stats by project
+    const projectRows = this.prepare(`
+      SELECT COALESCE(project, 'global') as proj, COUNT(*) as count
+      FROM memories WHERE is_obsolete = 0
+      GROUP BY project
+    `).all() as Array<{ proj: string; count: number }>;
+    const byProject: Record<string, number> = {};
+    for (const row of projectRows) {
+      byProject[row.proj] = row.count;
     }
+
+    return { total, byType, byProject, obsolete, avgImportance };
+  }
+
+  /**
+   * Effective contradiction settings (config merged over defaults).
+   */
+  getContradictionConfig(): NonNullable<Config['contradiction']> {
+    return this.contradiction;
+  }
+
+  /**
+   * Token budget of the recalled section injected by the recall hook.
+   */
+  getInjectionBudgetTokens(): number {
+    return this.config.recall.injectionBudgetTokens ?? DEFAULT_INJECTION_BUDGET_TOKENS;
+  }
+
+  /**
+   * How content over chunking.maxTokens is cut (paragraph, markdown, semantic).
+   */
+  getChunkingStrategy(): ChunkingStrategy {
+    return this.config.chunking.strategy ?? 'paragraph';
+  }
+
+  /**
+   * Tokenizer the chunker measures chunks with.
+   */
+  getTokenizer(): Tokenizer {
+    return this.tokenizer;
+  }
+
+  getEmbeddingCacheStats(): EmbeddingCacheStats {
+    return this.embeddingCache.stats();
+  }
+
+  /**
+   * Empty the embedding cache and reset its hit counters.
+   * Returns the number of entries removed.
+   */
+  clearEmbeddingCache(): number {
+    return this.embeddingCache.clear();
+  }
+
+  /**
+   * Configured embedding provider (mlx, ollama, openai, command, hash).
+   */
+  getEmbeddingProvider(): EmbeddingProvider {
+    return this.config.embedding.provider;
   }
 
   getProjectRegistry(): ProjectRegistryManager {
@@ -714,45 +2352,50 @@ export class MemoryManager {
    * Keeps the highest-scoring memory per cluster, marks others obsolete.
    */
   async consolidate(project?: string | null, dryRun: boolean = false): Promise<{ consolidated: number; clusters: Array<{ kept: number; merged: number[] }> }> {
-    const db = this.getDb();
     const clusters: Array<{ kept: number; merged: number[] }> = [];
 
-    try {
-      // Load all active memories
-      let sql = 'SELECT id, content, importance, confidence, access_count FROM memories WHERE is_obsolete = 0';
-      const params: unknown[] = [];
-
-      if (project !== undefined) {
-        if (project === null) {
-          sql += ' AND project IS NULL';
-        } else {
-          sql += ' AND project = ?';
-          params.push(project);
-        }
+    // Load all active memories, in the vector space neighbors are searched in
+    const space = this.vectorSpace();
+    let sql = `SELECT id, content, importance, confidence, access_count FROM memories WHERE is_obsolete = 0 AND ${space.sql}`;
+    const params: unknown[] = [...space.params];
+
+    if (project !== undefined) {
+      if (project === null) {
+        sql += ' AND project IS NULL';
+      } else {
+        sql += ' AND project = ?';
+        params.push(project);
       }
+    }
+
+    const memories = this.prepare(sql).all(...params) as Array<{
+      id: number; content: string; importance: number; confidence: number; access_count: number;
+    }>;
 
-      const memories = db.prepare(sql).all(...params) as Array<{
-        id: number; content: string; importance: number; confidence: number; access_count: number;
-      }>;
+    const threshold = this.config.dedup.similarityThreshold * 2;
+    const processed = new Set<number>();
+    let totalConsolidated = 0;
 
-      const threshold = this.config.dedup.similarityThreshold * 2;
-      const processed = new Set<number>();
-      let totalConsolidated = 0;
+    const findNeighbors = this.prepare(`
+      SELECT v.rowid as id, v.distance
+      FROM vec_memories v
+      JOIN memories m ON v.rowid = m.id
+      WHERE v.embedding MATCH (SELECT embedding FROM vec_memories WHERE rowid = ?)
+        AND k = 20
+        AND m.is_obsolete = 0
+        AND v.rowid != ?
+        AND v.rowid IN (SELECT id FROM memories WHERE ${space.sql})
+    `);
+    const getScoreFields = this.prepare('SELECT importance, confidence, access_count FROM memories WHERE id = ?');
+    const markMerged = this.prepare('UPDATE memories SET is_obsolete = 1, supersedes = ? WHERE id = ?');
 
+    this.getDb().transaction(() => {
       for (const mem of memories) {
         if (processed.has(mem.id)) continue;
         processed.add(mem.id);
 
         // Find neighbors
-        const neighbors = db.prepare(`
-          SELECT v.rowid as id, v.distance
-          FROM vec_memories v
-          JOIN memories m ON v.rowid = m.id
-          WHERE v.embedding MATCH (SELECT embedding FROM vec_memories WHERE rowid = ?)
-            AND k = 20
-            AND m.is_obsolete = 0
-            AND v.rowid != ?
-        `).all(BigInt(mem.id), BigInt(mem.id)) as Array<{ id: number; distance: number }>;
+        const neighbors = findNeighbors.all(BigInt(mem.id), BigInt(mem.id), ...space.params) as Array<{ id: number; distance: number }>;
 
         const cluster = neighbors
           .filter(n => n.distance < threshold && !processed.has(n.id))
@@ -765,7 +2408,7 @@ export class MemoryManager {
         const scores: Array<{ id: number; score: number }> = [];
 
         for (const id of allIds) {
-          const m = db.prepare('SELECT importance, confidence, access_count FROM memories WHERE id = ?').get(id) as {
+          const m = getScoreFields.get(id) as {
             importance: number; confidence: number; access_count: number;
           };
           if (m) {
@@ -779,7 +2422,9 @@ export class MemoryManager {
 
         if (!dryRun) {
           for (const loserId of losers) {
-            db.prepare('UPDATE memories SET is_obsolete = 1, supersedes = ? WHERE id = ?').run(winner, loserId);
+            this.mutate(loserId, 'consolidate', () => {
+              markMerged.run(winner, loserId);
+            });
           }
         }
 
@@ -787,18 +2432,15 @@ export class MemoryManager {
         totalConsolidated += losers.length;
         clusters.push({ kept: winner, merged: losers });
       }
+    })();
 
-      return { consolidated: totalConsolidated, clusters };
-    } finally {
-      db.close();
-    }
+    return { consolidated: totalConsolidated, clusters };
   }
 
   /**
    * Remove corrupted memories (JSON artifacts, Haiku prompts, tiny content).
    */
   async cleanupCorrupted(dryRun: boolean = false): Promise<{ count: number; samples: string[] }> {
-    const db = this.getDb();
     const corruptPatterns = [
       /^\s*\{/, // Starts with JSON object
       /^\s*\[(?!\w)/, // Starts with JSON array (but not [filepath] prefixed content)
@@ -807,38 +2449,48 @@ export class MemoryManager {
       /^\s*Tu es un assistant/i, // Haiku system prompt leaked
     ];
 
-    try {
-      const rows = db.prepare('SELECT id, content FROM memories WHERE is_obsolete = 0').all() as Array<{ id: number; content: string }>;
+    const rows = this.prepare('SELECT id, content FROM memories WHERE is_obsolete = 0').all() as Array<{ id: number; content: string }>;
 
-      const corrupted: number[] = [];
-      const samples: string[] = [];
-
-      for (const row of rows) {
-        const isCorrupt = row.content.trim().length < 20
-          || corruptPatterns.some(p => p.test(row.content.trim()));
+    const corrupted: number[] = [];
+    const samples: string[] = [];
 
-        if (isCorrupt) {
-          corrupted.push(row.id);
-          if (samples.length < 10) {
-            samples.push(`#${row.id}: ${row.content.slice(0, 80)}`);
-          }
-        }
-      }
+    for (const row of rows) {
+      const isCorrupt = row.content.trim().length < 20
+        || corruptPatterns.some(p => p.test(row.content.trim()));
 
-      if (!dryRun && corrupted.length > 0) {
-        for (const id of corrupted) {
-          db.prepare('DELETE FROM vec_memories WHERE rowid = ?').run(BigInt(id));
-          db.prepare('DELETE FROM memories WHERE id = ?').run(id);
+      if (isCorrupt) {
+        corrupted.push(row.id);
+        if (samples.length < 10) {
+          samples.push(`#${row.id}: ${row.content.slice(0, 80)}`);
         }
       }
+    }
 
-      return { count: corrupted.length, samples };
-    } finally {
-      db.close();
+    if (!dryRun && corrupted.length > 0) {
+      this.deleteMemories(corrupted);
     }
+
+    return { count: corrupted.length, samples };
   }
 
+  /**
+   * Whether memories can be embedded: the provider answers, or the offline
+   * fallback (config.embedding.fallback) stands in for it.
+   */
   async isReady(): Promise<boolean> {
-    return this.embedder.isAvailable();
+    const available = await this.embedder.isAvailable();
+    if (this.fallbackEmbedder) {
+      this.degraded = !available;
+    }
+    return available || this.fallbackEmbedder !== null;
+  }
+
+  /**
+   * Whether this manager embeds with the offline fallback because the
+   * provider is down. Decided on first use, for the manager's lifetime.
+   */
+  async isDegraded(): Promise<boolean> {
+    await this.activeEmbedder();
+    return this.degraded === true;
   }
 }
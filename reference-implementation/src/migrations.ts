@@ -0,0 +1,366 @@
+/**
+ * Schema migrations for the unified memories database.
+ *
+ * Each migration runs once, in version order, inside its own transaction.
+ * The applied version is recorded in the schema_version table.
+ * Never edit a migration that has shipped: add a new one instead.
+ */
+
+import Database from 'better-sqlite3';
+import * as sqliteVec from 'sqlite-vec';
+import { existsSync, readdirSync } from 'fs';
+import { homedir } from 'os';
+import { join, basename } from 'path';
+import { Config } from './types.js';
+import { HASH_EMBEDDING_MODEL } from './embedders.js';
+
+const MEMORY_PATH = join(homedir(), '.claude', 'cmem');
+
+export interface Migration {
+  version: number;
+  description: string;
+  up(db: Database.Database, config: Config): void;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Unified memories table and vector index',
+    up(db, config) {
+      // IF NOT EXISTS: databases created before versioning already have these
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS memories (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          content TEXT NOT NULL,
+          type TEXT NOT NULL,
+          project TEXT,
+          category TEXT,
+          reasoning TEXT,
+          source TEXT NOT NULL,
+          importance INTEGER DEFAULT 3,
+          confidence REAL DEFAULT 1.0,
+          created_at INTEGER DEFAULT (unixepoch()),
+          last_accessed INTEGER,
+          access_count INTEGER DEFAULT 0,
+          expires_at INTEGER,
+          supersedes INTEGER,
+          is_obsolete INTEGER DEFAULT 0,
+          tags TEXT DEFAULT '[]'
+        );
+
+        CREATE VIRTUAL TABLE IF NOT EXISTS vec_memories USING vec0(
+          embedding float[${config.embedding.dimensions}]
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_memories_type ON memories(type);
+        CREATE INDEX IF NOT EXISTS idx_memories_project ON memories(project);
+        CREATE INDEX IF NOT EXISTS idx_memories_obsolete ON memories(is_obsolete);
+        CREATE INDEX IF NOT EXISTS idx_memories_created ON memories(created_at);
+      `);
+    }
+  },
+  {
+    version: 2,
+    description: 'Import legacy per-project databases (global.db, <project>.db)',
+    up(db) {
+      importLegacyDatabases(db);
+    }
+  },
+  {
+    version: 3,
+    description: 'Full-text index (FTS5) over content, reasoning and tags',
+    up(db) {
+      // External-content table: rows live in memories, triggers keep the index in sync.
+      // '_' is a token character so identifiers like MAX_RETRIES match as a whole.
+      db.exec(`
+        CREATE VIRTUAL TABLE memories_fts USING fts5(
+          content, reasoning, tags,
+          content='memories', content_rowid='id',
+          tokenize="unicode61 remove_diacritics 2 tokenchars '_'"
+        );
+
+        CREATE TRIGGER memories_fts_insert AFTER INSERT ON memories BEGIN
+          INSERT INTO memories_fts (rowid, content, reasoning, tags)
+          VALUES (new.id, new.content, new.reasoning, new.tags);
+        END;
+
+        CREATE TRIGGER memories_fts_delete AFTER DELETE ON memories BEGIN
+          INSERT INTO memories_fts (memories_fts, rowid, content, reasoning, tags)
+          VALUES ('delete', old.id, old.content, old.reasoning, old.tags);
+        END;
+
+        CREATE TRIGGER memories_fts_update AFTER UPDATE OF content, reasoning, tags ON memories BEGIN
+          INSERT INTO memories_fts (memories_fts, rowid, content, reasoning, tags)
+          VALUES ('delete', old.id, old.content, old.reasoning, old.tags);
+          INSERT INTO memories_fts (rowid, content, reasoning, tags)
+          VALUES (new.id, new.content, new.reasoning, new.tags);
+        END;
+
+        INSERT INTO memories_fts (memories_fts) VALUES ('rebuild');
+      `);
+    }
+  },
+  {
+    version: 4,
+    description: 'Edit history and audit log (memory_history)',
+    up(db) {
+      // No foreign key: history outlives deleted memories
+      db.exec(`
+        CREATE TABLE memory_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          memory_id INTEGER NOT NULL,
+          version INTEGER NOT NULL,
+          action TEXT NOT NULL,
+          actor TEXT NOT NULL,
+          old_content TEXT,
+          new_content TEXT,
+          old_fields TEXT,
+          new_fields TEXT,
+          created_at INTEGER DEFAULT (unixepoch()),
+          UNIQUE (memory_id, version)
+        );
+
+        CREATE INDEX idx_history_memory ON memory_history(memory_id);
+      `);
+    }
+  },
+  {
+    version: 5,
+    description: 'Typed links between memories (memory_links)',
+    up(db) {
+      db.exec(`
+        CREATE TABLE memory_links (
+          source_id INTEGER NOT NULL,
+          target_id INTEGER NOT NULL,
+          relation TEXT NOT NULL,
+          created_at INTEGER DEFAULT (unixepoch()),
+          PRIMARY KEY (source_id, target_id, relation)
+        );
+
+        CREATE INDEX idx_links_target ON memory_links(target_id);
+
+        CREATE TRIGGER memory_links_cleanup AFTER DELETE ON memories BEGIN
+          DELETE FROM memory_links WHERE source_id = old.id OR target_id = old.id;
+        END;
+      `);
+    }
+  },
+  {
+    version: 6,
+    description: 'Conflict flag for contradicting memories',
+    up(db) {
+      db.exec(`
+        ALTER TABLE memories ADD COLUMN conflicting INTEGER DEFAULT 0;
+        CREATE INDEX idx_memories_conflicting ON memories(conflicting) WHERE conflicting = 1;
+      `);
+    }
+  },
+  {
+    version: 7,
+    description: 'Recall access log (access_log)',
+    up(db) {
+      db.exec(`
+        CREATE TABLE access_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          memory_id INTEGER NOT NULL,
+          actor TEXT NOT NULL,
+          accessed_at INTEGER DEFAULT (unixepoch())
+        );
+
+        CREATE INDEX idx_access_log_memory ON access_log(memory_id);
+        CREATE INDEX idx_access_log_time ON access_log(accessed_at);
+
+        CREATE TRIGGER access_log_cleanup AFTER DELETE ON memories BEGIN
+          DELETE FROM access_log WHERE memory_id = old.id;
+        END;
+      `);
+    }
+  },
+  {
+    version: 8,
+    description: 'Pinned memories',
+    up(db) {
+      db.exec(`
+        ALTER TABLE memories ADD COLUMN pinned INTEGER DEFAULT 0;
+        CREATE INDEX idx_memories_pinned ON memories(pinned) WHERE pinned = 1;
+      `);
+    }
+  },
+  {
+    version: 9,
+    description: 'Chunk groups (group_id, chunk_index, chunk_total)',
+    up(db) {
+      db.exec(`
+        ALTER TABLE memories ADD COLUMN group_id INTEGER;
+        ALTER TABLE memories ADD COLUMN chunk_index INTEGER;
+        ALTER TABLE memories ADD COLUMN chunk_total INTEGER;
+        CREATE INDEX idx_memories_group ON memories(group_id, chunk_index) WHERE group_id IS NOT NULL;
+      `);
+      groupLegacyChunks(db);
+    }
+  },
+  {
+    version: 10,
+    description: 'Embedding model and dimensions per memory',
+    up(db, config) {
+      db.exec(`
+        ALTER TABLE memories ADD COLUMN embedding_model TEXT;
+        ALTER TABLE memories ADD COLUMN embedding_dimensions INTEGER;
+      `);
+      // The vector size is known from the table; the model can only be
+      // assumed to be the configured one
+      db.prepare('UPDATE memories SET embedding_model = ?, embedding_dimensions = ?').run(
+        config.embedding.provider === 'hash' ? HASH_EMBEDDING_MODEL : config.embedding.model,
+        vectorTableDimensions(db, 'vec_memories') ?? config.embedding.dimensions
+      );
+    }
+  },
+  {
+    version: 11,
+    description: 'Embedding cache',
+    up(db) {
+      db.exec(`
+        CREATE TABLE embedding_cache (
+          model TEXT NOT NULL,
+          text_hash TEXT NOT NULL,
+          dimensions INTEGER NOT NULL,
+          embedding BLOB NOT NULL,
+          last_used INTEGER NOT NULL,
+          PRIMARY KEY (model, text_hash)
+        );
+        CREATE INDEX idx_embedding_cache_last_used ON embedding_cache(last_used);
+
+        CREATE TABLE embedding_cache_stats (
+          hits INTEGER NOT NULL DEFAULT 0,
+          misses INTEGER NOT NULL DEFAULT 0,
+          since INTEGER NOT NULL DEFAULT (unixepoch())
+        );
+        INSERT INTO embedding_cache_stats DEFAULT VALUES;
+      `);
+    }
+  },
+  {
+    version: 12,
+    description: 'Heading breadcrumb of chunks (headings)',
+    up(db) {
+      db.exec('ALTER TABLE memories ADD COLUMN headings TEXT');
+    }
+  }
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Vector size a vec0 table was created with, null if the table doesn't exist.
+ */
+export function vectorTableDimensions(db: Database.Database, table: string): number | null {
+  const row = db.prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?").get(table) as { sql: string } | undefined;
+  const match = row?.sql.match(/float\[(\d+)\]/);
+  return match ? parseInt(match[1]) : null;
+}
+
+/**
+ * Chunks used to be stored with a "[Part n/m] " content prefix. Strip it and
+ * group consecutive parts 1..m of the same scope and source; the group ID is
+ * the first part's memory ID. Embeddings keep the prefix until re-embedded.
+ */
+function groupLegacyChunks(db: Database.Database): void {
+  const rows = db.prepare(`
+    SELECT id, content, project, source FROM memories
+    WHERE content LIKE '[Part %/%] %'
+    ORDER BY id
+  `).all() as Array<{ id: number; content: string; project: string | null; source: string }>;
+
+  const update = db.prepare(`
+    UPDATE memories SET content = ?, group_id = ?, chunk_index = ?, chunk_total = ? WHERE id = ?
+  `);
+
+  let group: { id: number; next: number; total: number; project: string | null; source: string } | null = null;
+
+  for (const row of rows) {
+    const match = row.content.match(/^\[Part (\d+)\/(\d+)\] ([\s\S]*)$/);
+    if (!match) continue;
+    const index = parseInt(match[1]) - 1;
+    const total = parseInt(match[2]);
+
+    const continues = group !== null && index === group.next && total === group.total
+      && row.project === group.project && row.source === group.source;
+    if (index === 0) {
+      group = { id: row.id, next: 0, total, project: row.project, source: row.source };
+    } else if (!continues) {
+      // Orphan part (siblings deleted or interleaved): keep it ungrouped
+      group = null;
+      update.run(match[3], null, null, null, row.id);
+      continue;
+    }
+
+    update.run(match[3], group!.id, index, total, row.id);
+    group!.next = index + 1;
+  }
+}
+
+/**
+ * cmem v1 kept one database per scope in ~/.claude/cmem: global.db for
+ * global memories and <project>.db for each project. Copy their rows and
+ * vectors into the unified table. The legacy files are left untouched.
+ *
+ * Skipped when the unified table already has rows: those installs were
+ * moved to v3 by hand and importing again would duplicate everything.
+ */
+function importLegacyDatabases(db: Database.Database): void {
+  if (!existsSync(MEMORY_PATH)) return;
+  if (db.prepare('SELECT 1 FROM memories LIMIT 1').get()) return;
+
+  const legacyFiles = readdirSync(MEMORY_PATH)
+    .filter(f => f.endsWith('.db') && f !== 'memories.db');
+
+  const insertMemory = db.prepare(`
+    INSERT INTO memories (content, type, project, category, reasoning, source, importance, confidence,
+      created_at, last_accessed, access_count, expires_at, is_obsolete, tags)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertVector = db.prepare('INSERT INTO vec_memories (rowid, embedding) VALUES (?, ?)');
+
+  for (const file of legacyFiles) {
+    const project = file === 'global.db' ? null : basename(file, '.db');
+    const legacy = new Database(join(MEMORY_PATH, file), { readonly: true, fileMustExist: true });
+
+    try {
+      sqliteVec.load(legacy);
+
+      const hasMemories = legacy.prepare(
+        "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'memories'"
+      ).get();
+      if (!hasMemories) continue;
+
+      const rows = legacy.prepare('SELECT * FROM memories').all() as Array<Record<string, unknown>>;
+      const getVector = legacy.prepare('SELECT embedding FROM vec_memories WHERE rowid = ?');
+
+      for (const row of rows) {
+        const result = insertMemory.run(
+          row.content,
+          row.type ?? 'fact',
+          (row.project as string | null | undefined) ?? project,
+          row.category ?? null,
+          row.reasoning ?? null,
+          row.source ?? 'manual',
+          row.importance ?? 3,
+          row.confidence ?? 1.0,
+          row.created_at ?? Math.floor(Date.now() / 1000),
+          row.last_accessed ?? null,
+          row.access_count ?? 0,
+          row.expires_at ?? null,
+          row.is_obsolete ?? 0,
+          row.tags ?? '[]'
+        );
+
+        const vector = getVector.get(BigInt(row.id as number)) as { embedding: Buffer } | undefined;
+        if (vector) {
+          insertVector.run(BigInt(result.lastInsertRowid), vector.embedding);
+        }
+      }
+    } finally {
+      legacy.close();
+    }
+  }
+}
@@ -3,6 +3,12 @@
  * Replaces OllamaEmbedder with native MLX on Apple Silicon
  */
 
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { homedir } from 'os';
+
+const STATE_PATH = join(homedir(), '.claude', 'cmem', 'embedder-state.json');
+
 export interface Embedder {
   embed(text: string): Promise<number[]>;
   embedBatch(texts: string[]): Promise<number[][]>;
@@ -13,6 +19,15 @@ export interface Embedder {
 export interface MLXEmbedderConfig {
   baseUrl: string;
   dimensions: number;
+  timeoutMs?: number;      // Per request (default: 10000)
+  retries?: number;        // Extra attempts on 5xx and connection errors (default: 2)
+  retryDelayMs?: number;   // First backoff, doubled at each retry (default: 250)
+  maxBatchSize?: number;   // Texts per request, larger batches are split (default: 32)
+  circuitBreaker?: {
+    failureThreshold?: number;  // Consecutive failures before skipping the server (default: 3)
+    cooldownMs?: number;        // How long it is skipped (default: 60000)
+    statePath?: string;         // Shared by all processes (default: ~/.claude/cmem/embedder-state.json)
+  };
 }
 
 interface EmbedResponse {
@@ -26,13 +41,93 @@ interface HealthResponse {
   dimensions: number;
 }
 
+/**
+ * Circuit breaker state, persisted so that consecutive hook processes
+ * don't each wait for a server that is down.
+ */
+interface CircuitState {
+  baseUrl: string;
+  failures: number;    // Consecutive failed calls
+  openUntil: number;   // Epoch ms, 0 when closed
+}
+
+/**
+ * The server is down, hung or failing: counts towards the circuit breaker.
+ * Timeouts are not retried, the server had its chance.
+ */
+class TransientError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+  }
+}
+
+/**
+ * One vector of the configured size per text, else a readable error instead
+ * of an undefined embedding or a sqlite-vec dimension error later.
+ */
+export function checkEmbeddings(label: string, embeddings: number[][] | undefined, count: number, dimensions: number): number[][] {
+  if (!Array.isArray(embeddings) || embeddings.length !== count) {
+    throw new Error(`${label} returned ${Array.isArray(embeddings) ? embeddings.length : 0} embeddings for ${count} texts`);
+  }
+  const wrongSize = embeddings.find(e => !Array.isArray(e) || e.length !== dimensions);
+  if (wrongSize) {
+    throw new Error(`${label} returned ${Array.isArray(wrongSize) ? wrongSize.length : 0}-dimensional embeddings, expected ${dimensions} (config.embedding.dimensions)`);
+  }
+  return embeddings;
+}
+
+/**
+ * fetch() then read(response), both within the timeout: a server that sends
+ * its headers and then hangs is cut off too. Connection failures become a
+ * readable error.
+ */
+export async function fetchWithTimeout<T>(
+  label: string,
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  read: (response: Response) => Promise<T>
+): Promise<T> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    return await read(response);
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new TransientError(`${label} did not answer within ${timeoutMs}ms (${url})`, false);
+    }
+    if (error instanceof Error && error.message.includes('fetch failed')) {
+      throw new TransientError(`${label} not available at ${url}. Is it running?`, true);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
 export class MLXEmbedder implements Embedder {
   private baseUrl: string;
   private dimensions: number;
+  private timeoutMs: number;
+  private retries: number;
+  private retryDelayMs: number;
+  private maxBatchSize: number;
+  private failureThreshold: number;
+  private cooldownMs: number;
+  private statePath: string;
 
   constructor(config: MLXEmbedderConfig) {
     this.baseUrl = config.baseUrl;
     this.dimensions = config.dimensions;
+    this.timeoutMs = config.timeoutMs ?? 10000;
+    this.retries = config.retries ?? 2;
+    this.retryDelayMs = config.retryDelayMs ?? 250;
+    this.maxBatchSize = Math.max(1, config.maxBatchSize ?? 32);
+    this.failureThreshold = config.circuitBreaker?.failureThreshold ?? 3;
+    this.cooldownMs = config.circuitBreaker?.cooldownMs ?? 60000;
+    this.statePath = config.circuitBreaker?.statePath ?? STATE_PATH;
   }
 
   async embed(text: string): Promise<number[]> {
@@ -40,46 +135,84 @@ export class MLXEmbedder implements Embedder {
     return embeddings[0];
   }
 
+  /**
+   * Embed in requests of at most maxBatchSize texts.
+   */
   async embedBatch(texts: string[]): Promise<number[][]> {
-    try {
-      const response = await fetch(`${this.baseUrl}/embed`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ texts })
-      });
+    const state = this.readState();
+    if (state.openUntil > Date.now()) {
+      throw new Error(`MLX server at ${this.baseUrl} failed ${state.failures} times in a row, skipped until ${new Date(state.openUntil).toLocaleTimeString()}`);
+    }
 
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`MLX server error: ${response.status} - ${error}`);
+    const embeddings: number[][] = [];
+    try {
+      for (let i = 0; i < texts.length; i += this.maxBatchSize) {
+        embeddings.push(...await this.requestWithRetry(texts.slice(i, i + this.maxBatchSize)));
       }
-
-      const data = await response.json() as EmbedResponse;
-      return data.embeddings;
     } catch (error) {
-      if (error instanceof Error && error.message.includes('fetch failed')) {
-        throw new Error(`MLX server not available at ${this.baseUrl}. Is it running?`);
+      if (error instanceof TransientError) {
+        this.recordFailure();
       }
       throw error;
     }
+
+    this.recordSuccess();
+    return embeddings;
+  }
+
+  /**
+   * Exponential backoff on 5xx and connection errors.
+   */
+  private async requestWithRetry(texts: string[]): Promise<number[][]> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.request(texts);
+      } catch (error) {
+        if (!(error instanceof TransientError && error.retryable) || attempt >= this.retries) {
+          throw error;
+        }
+        await new Promise(resolve => setTimeout(resolve, this.retryDelayMs * 2 ** attempt));
+      }
+    }
   }
 
-  async isAvailable(): Promise<boolean> {
-    try {
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), 2000);
+  private async request(texts: string[]): Promise<number[][]> {
+    const data = await fetchWithTimeout('MLX server', `${this.baseUrl}/embed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ texts })
+    }, this.timeoutMs, async response => {
+      if (!response.ok) {
+        const error = await response.text();
+        const message = `MLX server error: ${response.status} - ${error}`;
+        throw response.status >= 500 ? new TransientError(message, true) : new Error(message);
+      }
+      return await response.json() as EmbedResponse;
+    });
 
-      const response = await fetch(`${this.baseUrl}/health`, {
-        signal: controller.signal
-      });
+    return checkEmbeddings('MLX server', data.embeddings, texts.length, this.dimensions);
+  }
+
+  /**
+   * False without a request while the circuit breaker is open.
+   */
+  async isAvailable(): Promise<boolean> {
+    if (this.readState().openUntil > Date.now()) {
+      return false;
+    }
 
-      clearTimeout(timeout);
+    try {
+      const healthy = await fetchWithTimeout('MLX server', `${this.baseUrl}/health`, {}, 2000,
+        async response => response.ok && (await response.json() as HealthResponse).status === 'ok');
 
-      if (response.ok) {
-        const data = await response.json() as HealthResponse;
-        return data.status === 'ok';
+      if (healthy) {
+        this.recordSuccess();
+      } else {
+        this.recordFailure();
       }
-      return false;
+      return healthy;
     } catch {
+      this.recordFailure();
       return false;
     }
   }
@@ -87,4 +220,45 @@ export class MLXEmbedder implements Embedder {
   getDimensions(): number {
     return this.dimensions;
   }
+
+  private readState(): CircuitState {
+    const closed: CircuitState = { baseUrl: this.baseUrl, failures: 0, openUntil: 0 };
+    if (!existsSync(this.statePath)) return closed;
+
+    try {
+      const state = JSON.parse(readFileSync(this.statePath, 'utf-8')) as CircuitState;
+      return state.baseUrl === this.baseUrl ? state : closed;
+    } catch {
+      return closed;
+    }
+  }
+
+  private writeState(state: CircuitState): void {
+    try {
+      mkdirSync(dirname(this.statePath), { recursive: true });
+      writeFileSync(this.statePath, JSON.stringify(state, null, 2));
+    } catch {
+      // Best effort: without the file, each process starts closed
+    }
+  }
+
+  /**
+   * Opens the circuit once failureThreshold is reached. After the cooldown
+   * the next call goes through, and a new failure reopens it at once.
+   */
+  private recordFailure(): void {
+    const state = this.readState();
+    state.failures++;
+    if (state.failures >= this.failureThreshold) {
+      state.openUntil = Date.now() + this.cooldownMs;
+    }
+    this.writeState(state);
+  }
+
+  private recordSuccess(): void {
+    const state = this.readState();
+    if (state.failures > 0 || state.openUntil > 0) {
+      this.writeState({ baseUrl: this.baseUrl, failures: 0, openUntil: 0 });
+    }
+  }
 }
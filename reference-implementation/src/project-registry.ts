@@ -1,16 +1,81 @@
 import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { execFileSync } from 'child_process';
 import { homedir } from 'os';
-import { join, resolve } from 'path';
-import { ProjectRegistry, ProjectInfo } from './types.js';
+import { basename, dirname, join, resolve, sep } from 'path';
+import { Config, ProjectRegistry, ProjectInfo } from './types.js';
 
 const MEMORY_PATH = join(homedir(), '.claude', 'cmem');
 const REGISTRY_PATH = join(MEMORY_PATH, 'project-registry.json');
+const GIT_TIMEOUT_MS = 2000;
+// A project without an origin remote is looked up again after this long
+const REMOTES_RECHECK_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * path is dir or inside it. "/work/app-old" is not inside "/work/app".
+ */
+export function isWithin(path: string, dir: string): boolean {
+  return path === dir || path.startsWith(dir.endsWith(sep) ? dir : dir + sep);
+}
+
+/**
+ * Closest directory at or above path with a .git (a directory, or a file
+ * for worktrees and submodules). Null outside a repository.
+ */
+export function findGitRoot(path: string): string | null {
+  let dir = resolve(path);
+  for (;;) {
+    if (existsSync(join(dir, '.git'))) return dir;
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+/**
+ * One form for all the URLs of a repository: scheme, credentials, port and
+ * ".git" dropped, lowercased. git@github.com:Org/App.git,
+ * https://user@github.com/org/app and ssh://git@github.com:22/org/app.git
+ * all give github.com/org/app.
+ */
+export function normalizeRemoteUrl(url: string): string {
+  let normalized = url.trim();
+  const scpLike = normalized.match(/^(?:[^@/]+@)?([^:/]+):(?!\/)(.+)$/);
+
+  if (scpLike) {
+    normalized = `${scpLike[1]}/${scpLike[2]}`;
+  } else {
+    normalized = normalized
+      .replace(/^[a-z][a-z0-9+.-]*:\/\//i, '')  // Scheme
+      .replace(/^[^@/]+@/, '')                 // Credentials
+      .replace(/^([^/:]+):\d+(?=\/)/, '$1');     // Port
+  }
+  return normalized.replace(/\/+$/, '').replace(/\.git$/i, '').toLowerCase();
+}
+
+/**
+ * Normalized origin URL of the repository at root; null without an origin
+ * or without git.
+ */
+export function gitRemote(root: string): string | null {
+  try {
+    const url = execFileSync('git', ['-C', root, 'config', '--get', 'remote.origin.url'], {
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+      timeout: GIT_TIMEOUT_MS
+    }).trim();
+    return url ? normalizeRemoteUrl(url) : null;
+  } catch {
+    return null;
+  }
+}
 
 export class ProjectRegistryManager {
   private registry: ProjectRegistry;
+  private options: NonNullable<Config['projects']>;
 
-  constructor() {
+  constructor(options: Config['projects'] = {}) {
     this.registry = this.load();
+    this.options = options;
   }
 
   private load(): ProjectRegistry {
@@ -25,21 +90,136 @@ export class ProjectRegistryManager {
     writeFileSync(REGISTRY_PATH, JSON.stringify(this.registry, null, 2));
   }
 
-  detectProject(cwd?: string): string | null {
+  /**
+   * Project of a directory: the registered path containing it (the deepest
+   * when projects are nested). Else, with projects.gitDetection, the project
+   * registered in the same git repository or with the same origin remote
+   * (another clone). Else, with projects.autoRegister and register (set by
+   * the hooks), a new project for the repository, named after its root.
+   */
+  detectProject(cwd?: string, options: { register?: boolean } = {}): string | null {
     const currentPath = resolve(cwd || process.cwd());
 
+    const byPath = this.matchPath(currentPath);
+    if (byPath) return byPath;
+
+    const autoRegister = this.options.autoRegister === true && options.register === true;
+    if (!this.options.gitDetection && !autoRegister) return null;
+
+    const root = findGitRoot(currentPath);
+    if (!root) return null;
+
+    if (this.options.gitDetection) {
+      const byGit = this.matchGitRoot(root) ?? this.matchRemote(root);
+      if (byGit) return byGit;
+    }
+
+    // A dotfiles repository in ~ is not a project
+    if (autoRegister && root !== homedir()) {
+      return this.registerRepository(root, currentPath);
+    }
+    return null;
+  }
+
+  private matchPath(currentPath: string): string | null {
+    let best: { name: string; length: number } | null = null;
+
     for (const [projectName, info] of Object.entries(this.registry.projects)) {
       for (const projectPath of info.paths) {
-        const expandedPath = projectPath.replace(/^~/, homedir());
-        const resolvedPath = resolve(expandedPath);
+        const resolvedPath = resolve(projectPath.replace(/^~/, homedir()));
+        if (isWithin(currentPath, resolvedPath) && (!best || resolvedPath.length > best.length)) {
+          best = { name: projectName, length: resolvedPath.length };
+        }
+      }
+    }
 
-        if (currentPath.startsWith(resolvedPath)) {
-          return projectName;
+    return best?.name ?? null;
+  }
+
+  /**
+   * The project with paths in the repository at root, e.g. registered for a
+   * subdirectory. Null when several projects share the repository (monorepo).
+   */
+  private matchGitRoot(root: string): string | null {
+    const matches = Object.entries(this.registry.projects)
+      .filter(([, info]) => info.paths.some(p => {
+        const resolvedPath = resolve(p.replace(/^~/, homedir()));
+        return isWithin(resolvedPath, root) && findGitRoot(resolvedPath) === root;
+      }))
+      .map(([name]) => name);
+
+    return matches.length === 1 ? matches[0] : null;
+  }
+
+  private matchRemote(root: string): string | null {
+    const remote = gitRemote(root);
+    if (!remote) return null;
+
+    // Projects registered before remotes were recorded, or without an origin
+    // at the last lookup. Reloaded first: another hook may have registered a
+    // project meanwhile.
+    if (Object.values(this.registry.projects).some(info => this.remotesStale(info))) {
+      this.registry = this.load();
+      for (const info of Object.values(this.registry.projects)) {
+        if (this.remotesStale(info)) {
+          Object.assign(info, this.lookupRemotes(info.paths));
         }
       }
+      this.save();
     }
 
-    return null;
+    // Like matchGitRoot: a remote shared by several projects picks none
+    const matches = Object.entries(this.registry.projects)
+      .filter(([, info]) => info.remotes?.includes(remote))
+      .map(([name]) => name);
+
+    return matches.length === 1 ? matches[0] : null;
+  }
+
+  private remotesStale(info: ProjectInfo): boolean {
+    return info.remotes === undefined
+      || (info.remotes.length === 0 && (info.remotesCheckedAt ?? 0) < Date.now() - REMOTES_RECHECK_MS);
+  }
+
+  /**
+   * Origin remotes of the git repositories of paths, and when they were
+   * looked up.
+   */
+  private lookupRemotes(paths: string[]): Pick<ProjectInfo, 'remotes' | 'remotesCheckedAt'> {
+    return { remotes: this.remotesOf(paths), remotesCheckedAt: Date.now() };
+  }
+
+  private remotesOf(paths: string[]): string[] {
+    const remotes = new Set<string>();
+    for (const path of paths) {
+      const root = findGitRoot(path.replace(/^~/, homedir()));
+      const remote = root && gitRemote(root);
+      if (remote) remotes.add(remote);
+    }
+    return [...remotes];
+  }
+
+  private registerRepository(root: string, currentPath: string): string {
+    // Another hook may have registered it meanwhile
+    this.registry = this.load();
+    const registered = this.matchPath(currentPath);
+    if (registered) return registered;
+
+    let name = basename(root);
+    for (let n = 2; this.registry.projects[name]; n++) {
+      name = `${basename(root)}-${n}`;
+    }
+
+    this.registry.projects[name] = {
+      paths: [root],
+      ...this.lookupRemotes([root]),
+      description: `Project ${name}`,
+      createdAt: Date.now(),
+      autoRegistered: true
+    };
+
+    this.save();
+    return name;
   }
 
   createProject(name: string, path?: string, description?: string): void {
@@ -51,6 +231,7 @@ export class ProjectRegistryManager {
 
     this.registry.projects[name] = {
       paths: [projectPath],
+      ...this.lookupRemotes([projectPath]),
       description: description || `Project ${name}`,
       createdAt: Date.now()
     };
@@ -69,7 +250,11 @@ export class ProjectRegistryManager {
       throw new Error(`Path already registered for '${name}'`);
     }
 
-    this.registry.projects[name].paths.push(resolvedPath);
+    const project = this.registry.projects[name];
+    project.paths.push(resolvedPath);
+    if (project.remotes) {
+      project.remotes = [...new Set([...project.remotes, ...this.remotesOf([resolvedPath])])];
+    }
     this.save();
   }
 
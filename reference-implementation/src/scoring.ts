@@ -0,0 +1,82 @@
+/**
+ * Scoring profiles for recall.
+ *
+ * A profile sets the weight of each factor in the recall score. Built-in
+ * profiles can be overridden, and new ones added, under recall.scoring.profiles.
+ */
+
+import { Config, ScoringProfile } from './types.js';
+
+export const DEFAULT_PROFILE = 'default';
+
+export const BUILTIN_SCORING_PROFILES: Record<string, ScoringProfile> = {
+  // The historical cmem weights
+  default: {
+    similarity: 1,
+    recency: 0.3,
+    importance: 0.1,
+    access: 0.05,
+    accessCap: 10,
+    confidence: 1,
+    projectBoost: 1.3,
+    globalPreferenceBoost: 1.1,
+    typeWeights: {}
+  },
+  // Recent facts and session context first, preferences matter less
+  debugging: {
+    similarity: 1,
+    recency: 0.6,
+    importance: 0.05,
+    access: 0.02,
+    accessCap: 10,
+    confidence: 1,
+    projectBoost: 1.3,
+    globalPreferenceBoost: 1.0,
+    typeWeights: { fact: 1.2, conversation: 1.2, pattern: 1.1, preference: 0.8 }
+  },
+  // Closest matches anywhere, whatever their age, usage or project
+  exploration: {
+    similarity: 1,
+    recency: 0,
+    importance: 0.05,
+    access: 0,
+    accessCap: 10,
+    confidence: 0.5,
+    projectBoost: 1.0,
+    globalPreferenceBoost: 1.0,
+    typeWeights: {}
+  }
+};
+
+/**
+ * Names of the profiles available with this config (built-in and custom).
+ */
+export function listScoringProfiles(config: Config): string[] {
+  return [...new Set([
+    ...Object.keys(BUILTIN_SCORING_PROFILES),
+    ...Object.keys(config.recall.scoring?.profiles ?? {})
+  ])];
+}
+
+/**
+ * Resolve a profile by name (default: recall.scoring.defaultProfile).
+ * Config values override the built-in profile of the same name, which
+ * itself falls back to the default profile for unset weights.
+ */
+export function resolveScoringProfile(config: Config, name?: string): ScoringProfile {
+  const profileName = name ?? config.recall.scoring?.defaultProfile ?? DEFAULT_PROFILE;
+  const custom = config.recall.scoring?.profiles?.[profileName];
+  const builtin = BUILTIN_SCORING_PROFILES[profileName];
+
+  if (!custom && !builtin) {
+    throw new Error(`Unknown scoring profile "${profileName}". Available: ${listScoringProfiles(config).join(', ')}`);
+  }
+
+  const base = BUILTIN_SCORING_PROFILES[DEFAULT_PROFILE];
+  return {
+    ...base,
+    ...builtin,
+    ...custom,
+    typeWeights: { ...builtin?.typeWeights, ...custom?.typeWeights }
+  };
+}
@@ -0,0 +1,221 @@
+/**
+ * Semantic chunking - cut where the topic changes. Sentences are embedded
+ * and a chunk ends where two adjacent sentences are less similar than most
+ * adjacent pairs of the document (a percentile of their similarities),
+ * within chunking.maxTokens and chunking.minChunkSize.
+ */
+
+import { Chunk, Config } from './types.js';
+import { splitSentences } from './markdown.js';
+import { HeuristicTokenizer, Tokenizer } from './tokenizer.js';
+
+export const DEFAULT_BREAKPOINT_PERCENTILE = 10;
+
+// Paragraphs kept in one piece when they fit: code, tables, lists
+const STRUCTURED = /^\s*(```|~~~|\||[-*+]\s|\d{1,9}[.)]\s)/m;
+
+/**
+ * A sentence, a whole structured paragraph, or a line of one over maxTokens;
+ * cut between words when still over maxTokens.
+ */
+interface Unit {
+  text: string;
+  separator: string;  // Joins it to the previous unit: blank line, newline or space
+}
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * p-th percentile (0-100) of values, linearly interpolated.
+ */
+export function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.min(Math.max(p, 0), 100) / 100 * (sorted.length - 1);
+  const low = Math.floor(rank);
+  const high = Math.ceil(rank);
+  return sorted[low] + (sorted[high] - sorted[low]) * (rank - low);
+}
+
+export class SemanticChunker {
+  private maxTokens: number;
+  private minSize: number;
+  private breakpointPercentile: number;
+  private embedBatch: (texts: string[]) => Promise<number[][]>;
+  private tokenizer: Tokenizer;
+
+  constructor(
+    config: Config['chunking'],
+    embedBatch: (texts: string[]) => Promise<number[][]>,
+    tokenizer: Tokenizer = new HeuristicTokenizer()
+  ) {
+    this.maxTokens = config.maxTokens;
+    this.minSize = config.minChunkSize;
+    this.breakpointPercentile = config.semantic?.breakpointPercentile ?? DEFAULT_BREAKPOINT_PERCENTILE;
+    this.embedBatch = embedBatch;
+    this.tokenizer = tokenizer;
+  }
+
+  async chunk(content: string): Promise<Chunk[]> {
+    return (await this.chunkMany([content]))[0];
+  }
+
+  /**
+   * chunk() for several documents, their sentences embedded together in
+   * requests of at most batchSize texts.
+   */
+  async chunkMany(contents: string[], batchSize: number = 32): Promise<Chunk[][]> {
+    const plans = contents.map(content => this.plan(content));
+    const texts = plans.flatMap(plan => plan.units?.map(u => u.text) ?? []);
+
+    const embeddings: number[][] = [];
+    for (let i = 0; i < texts.length; i += batchSize) {
+      embeddings.push(...await this.embedBatch(texts.slice(i, i + batchSize)));
+    }
+
+    let offset = 0;
+    return plans.map(plan => {
+      if (!plan.units) return plan.chunks!;
+      const own = embeddings.slice(offset, offset + plan.units.length);
+      offset += plan.units.length;
+      return this.group(plan.units, own);
+    });
+  }
+
+  /**
+   * The units to embed, or the chunks when no embedding is needed (short
+   * content, too few units).
+   */
+  private plan(content: string): { units?: Unit[]; chunks?: Chunk[] } {
+    const trimmed = content.trim();
+
+    // If short enough, no chunking needed
+    if (this.tokenizer.countTokens(trimmed) <= this.maxTokens) {
+      return { chunks: [{ content: trimmed, index: 0, total: 1 }] };
+    }
+
+    // Too few units for a percentile: one chunk each, they don't fit together
+    const units = this.splitUnits(trimmed);
+    return units.length < 3 ? { chunks: this.toChunks(units, units.map((_, i) => [i, i + 1])) } : { units };
+  }
+
+  /**
+   * Cut the units into chunks at topic changes, within maxTokens.
+   */
+  private group(units: Unit[], embeddings: number[][]): Chunk[] {
+    // similarities[i]: between units i and i + 1
+    const similarities = units.slice(1).map((_, i) => cosineSimilarity(embeddings[i], embeddings[i + 1]));
+    const threshold = percentile(similarities, this.breakpointPercentile);
+
+    const tokens = (start: number, end: number) => this.tokenizer.countTokens(this.join(units, start, end));
+    const groups: Array<[number, number]> = [];
+    let start = 0;
+
+    for (let i = 1; i < units.length; i++) {
+      // Topic change: cut before unit i once the chunk is big enough
+      if (similarities[i - 1] < threshold && tokens(start, i) >= this.minSize) {
+        groups.push([start, i]);
+        start = i;
+        continue;
+      }
+
+      // Too long with unit i: cut at the weakest boundary that leaves minChunkSize before it
+      while (i > start && tokens(start, i + 1) > this.maxTokens) {
+        let cut = i;
+        for (let b = i - 1; b > start; b--) {
+          if (similarities[b - 1] < similarities[cut - 1] && tokens(start, b) >= this.minSize) {
+            cut = b;
+          }
+        }
+        groups.push([start, cut]);
+        start = cut;
+      }
+    }
+    groups.push([start, units.length]);
+
+    // A last chunk below minChunkSize joins the previous one when they fit together
+    if (groups.length > 1) {
+      const [previous, last] = groups.slice(-2);
+      if (tokens(last[0], last[1]) < this.minSize && tokens(previous[0], last[1]) <= this.maxTokens) {
+        groups.splice(-2, 2, [previous[0], last[1]]);
+      }
+    }
+
+    return this.toChunks(units, groups);
+  }
+
+  private toChunks(units: Unit[], groups: Array<[number, number]>): Chunk[] {
+    return groups.map(([from, to], i) => ({
+      content: this.join(units, from, to),
+      index: i,
+      total: groups.length
+    }));
+  }
+
+  /**
+   * Paragraphs as sentences; structured ones whole when they fit in
+   * maxTokens, else line by line. Every unit fits in maxTokens.
+   */
+  private splitUnits(text: string): Unit[] {
+    return text.split(/\n\n+/).map(p => p.trim()).filter(Boolean).flatMap(paragraph => {
+      const [parts, separator] = !STRUCTURED.test(paragraph)
+        ? [splitSentences(paragraph), ' ']
+        : this.tokenizer.countTokens(paragraph) <= this.maxTokens
+          ? [[paragraph], '']
+          : [paragraph.split('\n'), '\n'];
+      return parts.flatMap((part, i) => this.splitOversized(part).map((piece, j) => ({
+        text: piece,
+        separator: j > 0 ? ' ' : i === 0 ? '\n\n' : separator
+      })));
+    });
+  }
+
+  /**
+   * A sentence or line over maxTokens as pieces that fit: whole words, and
+   * a word over maxTokens on its own (a URL, a hash) cut between characters.
+   */
+  private splitOversized(text: string): string[] {
+    if (this.tokenizer.countTokens(text) <= this.maxTokens) return [text];
+
+    const fits = (piece: string) => this.tokenizer.countTokens(piece) <= this.maxTokens;
+    const pieces: string[] = [];
+    let current = '';
+
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      const combined = current ? `${current} ${word}` : word;
+      if (fits(combined)) {
+        current = combined;
+        continue;
+      }
+      if (current) pieces.push(current);
+      current = word;
+
+      while (!fits(current)) {
+        // Longest prefix that fits, at least one character
+        const chars = [...current];
+        let low = 1;
+        let high = chars.length - 1;
+        while (low < high) {
+          const mid = Math.ceil((low + high) / 2);
+          if (fits(chars.slice(0, mid).join(''))) low = mid;
+          else high = mid - 1;
+        }
+        pieces.push(chars.slice(0, low).join(''));
+        current = chars.slice(low).join('');
+      }
+    }
+    if (current) pieces.push(current);
+    return pieces;
+  }
+
+  private join(units: Unit[], start: number, end: number): string {
+    return units.slice(start, end).map((unit, i) => (i === 0 ? '' : unit.separator) + unit.text).join('');
+  }
+}
@@ -0,0 +1,108 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { HeuristicJudge, LLMJudge } from '../contradiction.js';
+import { json, stall, stubServer } from './stub-server.js';
+
+interface GenerateRequest {
+  model: string;
+  prompt: string;
+  format: string;
+  stream: boolean;
+}
+
+describe('HeuristicJudge', () => {
+  const judge = new HeuristicJudge();
+  const verdict = (a: string, b: string) => judge.judge(a, b);
+
+  test('flags the same statement negated', async () => {
+    assert.deepEqual(await verdict('Never use semicolons in TypeScript files', 'Use semicolons in TypeScript files'),
+      { contradicts: true, reason: 'one statement negates the other' });
+    assert.equal((await verdict('Semicolons in TypeScript files', 'No semicolons in TypeScript files')).contradicts, true);
+    assert.equal((await verdict("On n'utilise plus Redux pour l'état", "On utilise Redux pour l'état")).contradicts, true);
+  });
+
+  test('only reads "no" and "plus" as negations where they negate', async () => {
+    assert.equal((await verdict('Use npm plus pnpm in CI', 'Use npm in CI')).contradicts, false);
+    assert.equal((await verdict('Mock the API in unit tests, no exceptions', 'Mock the API in unit tests')).contradicts, false);
+  });
+
+  test('flags opposite terms, on/off included', async () => {
+    assert.deepEqual(await verdict('The dark-mode feature flag is off', 'The dark-mode feature flag is on'),
+      { contradicts: true, reason: 'opposite terms: on / off' });
+    assert.deepEqual(await verdict('Disable source maps in production builds', 'Enable source maps in production builds'),
+      { contradicts: true, reason: 'opposite terms: enable / disable' });
+  });
+
+  test('flags a swapped value after a choice word, or a swapped number', async () => {
+    assert.deepEqual(await verdict('Use pnpm for package management', 'Use npm for package management'),
+      { contradicts: true, reason: 'different value: pnpm vs npm' });
+    assert.deepEqual(await verdict('Cache TTL 600 seconds', 'Cache TTL 300 seconds'),
+      { contradicts: true, reason: 'different value: 600 vs 300' });
+  });
+
+  test('leaves unrelated and compatible statements alone', async () => {
+    assert.deepEqual(await verdict('Use pnpm for package management', 'Run the tests before each release'),
+      { contradicts: false, reason: 'no contradiction rule matched' });
+    assert.equal((await verdict('Deploy staging from main', 'Deploy production from tags')).contradicts, false);
+    assert.equal((await verdict('Always run lint before commit', 'Always run lint before commit')).contradicts, false);
+  });
+});
+
+describe('LLMJudge', () => {
+  const server = stubServer();
+  let baseUrl: string;
+
+  before(async () => { baseUrl = await server.start(); });
+  after(() => server.stop());
+
+  const A = 'Use pnpm for package management';
+  const B = 'Use npm for package management';
+
+  test('asks the model and reads its JSON verdict', async () => {
+    let received: GenerateRequest | undefined;
+    server.handle<GenerateRequest>((body, _req, res) => {
+      received = body;
+      json(res, 200, { response: '{"contradicts": true, "reason": "different package managers"}' });
+    });
+
+    const judge = new LLMJudge({ baseUrl, model: 'qwen2.5:3b' });
+    assert.deepEqual(await judge.judge(A, B), { contradicts: true, reason: 'different package managers' });
+    assert.equal(received?.model, 'qwen2.5:3b');
+    assert.equal(received?.format, 'json');
+    assert.match(received?.prompt ?? '', /A: Use npm for package management\nB: Use pnpm for package management/);
+  });
+
+  test('falls back to the heuristics when the server is down', async () => {
+    const judge = new LLMJudge({ baseUrl: 'http://127.0.0.1:1', model: 'm' });
+
+    assert.deepEqual(await judge.judge(A, B), { contradicts: true, reason: 'different value: pnpm vs npm (llm unavailable)' });
+  });
+
+  test('falls back to the heuristics on an unparseable answer', async () => {
+    server.handle((_body, _req, res) => json(res, 200, { response: 'They probably contradict.' }));
+    const judge = new LLMJudge({ baseUrl, model: 'm' });
+
+    assert.deepEqual(await judge.judge(A, B), { contradicts: true, reason: 'different value: pnpm vs npm (llm unavailable)' });
+  });
+
+  test('falls back to the heuristics when the body stalls', async () => {
+    server.handle((_body, _req, res) => stall(res, '{"response": "{\\"contradicts\\"'));
+    const judge = new LLMJudge({ baseUrl, model: 'm', timeoutMs: 200 });
+
+    const start = Date.now();
+    assert.deepEqual(await judge.judge(A, B), { contradicts: true, reason: 'different value: pnpm vs npm (llm unavailable)' });
+    assert.ok(Date.now() - start < 2000);
+  });
+
+  test('answers with the heuristics once the time budget is spent', async () => {
+    let requests = 0;
+    server.handle((_body, _req, res) => {
+      requests++;
+      json(res, 200, { response: '{"contradicts": false}' });
+    });
+    const judge = new LLMJudge({ baseUrl, model: 'm' });
+
+    assert.deepEqual(await judge.judge(A, B, Date.now() - 1), { contradicts: true, reason: 'different value: pnpm vs npm (llm time budget spent)' });
+    assert.equal(requests, 0);
+  });
+});
@@ -0,0 +1,171 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { CommandEmbedder, OllamaEmbedder, OpenAIEmbedder } from '../embedders.js';
+import { json, stall, stubServer } from './stub-server.js';
+
+// Body of both /api/embed (Ollama) and /v1/embeddings (OpenAI)
+interface EmbedRequest {
+  model: string;
+  input: string[];
+}
+
+const vector = (n: number, dimensions = 3) => Array.from({ length: dimensions }, (_, i) => n + i / 10);
+
+describe('OllamaEmbedder', () => {
+  const server = stubServer();
+  let baseUrl: string;
+
+  before(async () => { baseUrl = await server.start(); });
+  after(() => server.stop());
+
+  test('sends the model and texts, returns one vector per text', async () => {
+    let received: { url?: string; body: EmbedRequest } | undefined;
+    server.handle<EmbedRequest>((body, req, res) => {
+      received = { url: req.url, body };
+      json(res, 200, { embeddings: body.input.map((_, i) => vector(i)) });
+    });
+
+    const embedder = new OllamaEmbedder({ baseUrl, model: 'nomic-embed-text', dimensions: 3 });
+    const embeddings = await embedder.embedBatch(['a', 'b']);
+
+    assert.deepEqual(received, { url: '/api/embed', body: { model: 'nomic-embed-text', input: ['a', 'b'] } });
+    assert.deepEqual(embeddings, [vector(0), vector(1)]);
+    assert.deepEqual(await embedder.embed('a'), vector(0));
+  });
+
+  test('rejects a missing vector', async () => {
+    server.handle((_body, _req, res) => json(res, 200, { embeddings: [vector(0)] }));
+    const embedder = new OllamaEmbedder({ baseUrl, model: 'm', dimensions: 3 });
+
+    await assert.rejects(embedder.embedBatch(['a', 'b']), /returned 1 embeddings for 2 texts/);
+  });
+
+  test('rejects vectors of another size than configured', async () => {
+    server.handle((_body, _req, res) => json(res, 200, { embeddings: [vector(0, 4)] }));
+    const embedder = new OllamaEmbedder({ baseUrl, model: 'm', dimensions: 3 });
+
+    await assert.rejects(embedder.embed('a'), /returned 4-dimensional embeddings, expected 3/);
+  });
+
+  test('reports server errors with their body', async () => {
+    server.handle((_body, _req, res) => res.writeHead(404).end('model "m" not found'));
+    const embedder = new OllamaEmbedder({ baseUrl, model: 'm', dimensions: 3 });
+
+    await assert.rejects(embedder.embed('a'), /Ollama server error: 404 - model "m" not found/);
+  });
+
+  test('times out on a body that never ends', async () => {
+    server.handle((_body, _req, res) => stall(res, '{"embeddings": ['));
+    const embedder = new OllamaEmbedder({ baseUrl, model: 'm', dimensions: 3, timeoutMs: 200 });
+
+    await assert.rejects(embedder.embed('a'), /did not answer within 200ms/);
+  });
+
+  test('is available when the model is pulled', async () => {
+    server.handle((_body, _req, res) => json(res, 200, { models: [{ name: 'nomic-embed-text:latest' }] }));
+
+    assert.equal(await new OllamaEmbedder({ baseUrl, model: 'nomic-embed-text', dimensions: 3 }).isAvailable(), true);
+    assert.equal(await new OllamaEmbedder({ baseUrl, model: 'mxbai-embed-large', dimensions: 3 }).isAvailable(), false);
+  });
+});
+
+describe('OpenAIEmbedder', () => {
+  const server = stubServer();
+  let baseUrl: string;
+
+  before(async () => { baseUrl = `${await server.start()}/v1`; });
+  after(() => server.stop());
+
+  test('sends the API key and orders vectors by index', async () => {
+    let received: { url?: string; authorization?: string; body: EmbedRequest } | undefined;
+    server.handle<EmbedRequest>((body, req, res) => {
+      received = { url: req.url, authorization: req.headers.authorization, body };
+      json(res, 200, { data: [{ index: 1, embedding: vector(1) }, { index: 0, embedding: vector(0) }] });
+    });
+
+    process.env.CMEM_TEST_API_KEY = 'secret';
+    try {
+      const embedder = new OpenAIEmbedder({ baseUrl, model: 'text-embedding-3-small', dimensions: 3, apiKeyEnv: 'CMEM_TEST_API_KEY' });
+      assert.deepEqual(await embedder.embedBatch(['a', 'b']), [vector(0), vector(1)]);
+    } finally {
+      delete process.env.CMEM_TEST_API_KEY;
+    }
+
+    assert.deepEqual(received, {
+      url: '/v1/embeddings',
+      authorization: 'Bearer secret',
+      body: { model: 'text-embedding-3-small', input: ['a', 'b'] }
+    });
+  });
+
+  test('rejects a response without data', async () => {
+    server.handle((_body, _req, res) => json(res, 200, { error: 'overloaded' }));
+    const embedder = new OpenAIEmbedder({ baseUrl, model: 'm', dimensions: 3 });
+
+    await assert.rejects(embedder.embed('a'), /returned 0 embeddings for 1 texts/);
+  });
+
+  test('rejects vectors of another size than configured', async () => {
+    server.handle((_body, _req, res) => json(res, 200, { data: [{ index: 0, embedding: vector(0, 2) }] }));
+    const embedder = new OpenAIEmbedder({ baseUrl, model: 'm', dimensions: 3 });
+
+    await assert.rejects(embedder.embed('a'), /returned 2-dimensional embeddings, expected 3/);
+  });
+
+  test('is available when /models answers', async () => {
+    server.handle((_body, req, res) => req.url === '/v1/models' ? json(res, 200, { data: [] }) : res.writeHead(404).end());
+
+    assert.equal(await new OpenAIEmbedder({ baseUrl, model: 'm', dimensions: 3 }).isAvailable(), true);
+    assert.equal(await new OpenAIEmbedder({ baseUrl: `${baseUrl}/missing`, model: 'm', dimensions: 3 }).isAvailable(), false);
+  });
+});
+
+describe('CommandEmbedder', () => {
+  const script = (source: string, dimensions = 3) =>
+    new CommandEmbedder({ command: 'node', args: ['-e', source], dimensions, timeoutMs: 5000 });
+
+  // Reads {"texts": [...]} and answers with the length of each text
+  const lengths = `
+    let input = '';
+    process.stdin.on('data', d => input += d);
+    process.stdin.on('end', () => {
+      const { texts } = JSON.parse(input);
+      console.log(JSON.stringify({ embeddings: texts.map(t => [t.length, 0, 1]) }));
+    });`;
+
+  test('passes the texts on stdin and reads the vectors from stdout', async () => {
+    assert.deepEqual(await script(lengths).embedBatch(['a', 'abc']), [[1, 0, 1], [3, 0, 1]]);
+    assert.equal(await script(lengths).isAvailable(), true);
+  });
+
+  test('rejects vectors of another size than configured', async () => {
+    await assert.rejects(script(lengths, 4).embed('a'), /returned 3-dimensional embeddings, expected 4/);
+    assert.equal(await script(lengths, 4).isAvailable(), false);
+  });
+
+  test('reports the exit code and stderr', async () => {
+    await assert.rejects(script('console.error("no model"); process.exit(3)').embed('a'), /exited with 3: no model/);
+  });
+
+  test('reports output that is not JSON', async () => {
+    await assert.rejects(script('console.log("ready")').embed('a'), /output is not \{"embeddings": \[\.\.\.\]\} JSON/);
+  });
+
+  test('survives a command that exits without reading stdin', async () => {
+    const embedder = new CommandEmbedder({ command: 'true', dimensions: 3, timeoutMs: 5000 });
+
+    await assert.rejects(embedder.embed('x'.repeat(2 * 1024 * 1024)), /output is not .* JSON/);
+  });
+
+  test('kills a command that hangs', async () => {
+    const embedder = new CommandEmbedder({ command: 'node', args: ['-e', 'setTimeout(() => {}, 60000)'], dimensions: 3, timeoutMs: 300 });
+
+    await assert.rejects(embedder.embed('a'), /killed \(SIGTERM\) after 300ms/);
+  });
+
+  test('reports a command that does not exist', async () => {
+    const embedder = new CommandEmbedder({ command: 'cmem-no-such-embedder', dimensions: 3 });
+
+    await assert.rejects(embedder.embed('a'), /failed to start \(cmem-no-such-embedder\)/);
+  });
+});
@@ -0,0 +1,100 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import Database from 'better-sqlite3';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createEmbedder, HashEmbedder, HASH_EMBEDDING_MODEL } from '../embedders.js';
+import { cosineSimilarity } from '../semantic-chunker.js';
+import { Config } from '../types.js';
+
+describe('HashEmbedder', () => {
+  const embedder = new HashEmbedder({ dimensions: 64 });
+
+  test('gives the same vector for the same text', async () => {
+    const a = await embedder.embed('Deploy with pnpm run release');
+    const b = await new HashEmbedder({ dimensions: 64 }).embed('Deploy with pnpm run release');
+
+    assert.deepEqual(a, b);
+    assert.deepEqual(await embedder.embedBatch(['Deploy with pnpm run release']), [a]);
+  });
+
+  test('returns unit vectors of the configured size', async () => {
+    const vector = await embedder.embed('The API uses cursor pagination');
+
+    assert.equal(vector.length, 64);
+    assert.ok(Math.abs(Math.hypot(...vector) - 1) < 1e-9);
+  });
+
+  test('returns a zero vector for text without words', async () => {
+    assert.deepEqual(await embedder.embed('?! ...'), new Array(64).fill(0));
+  });
+
+  test('ignores case and accents', async () => {
+    assert.deepEqual(await embedder.embed('Café RÉSUMÉ'), await embedder.embed('cafe resume'));
+  });
+
+  test('brings texts with shared words closer', async () => {
+    const query = await embedder.embed('database migrations');
+    const related = await embedder.embed('run the database migrations before deploying');
+    const unrelated = await embedder.embed('the logo uses a blue gradient');
+
+    assert.ok(cosineSimilarity(query, related) > cosineSimilarity(query, unrelated));
+  });
+
+  test('is the embedder of the hash provider', async () => {
+    const config = { provider: 'hash', dimensions: 64 } as Config['embedding'];
+    const created = createEmbedder(config);
+
+    assert.ok(created instanceof HashEmbedder);
+    assert.deepEqual(await created.embed('same text'), await embedder.embed('same text'));
+  });
+});
+
+describe('hash provider', () => {
+  const home = mkdtempSync(join(tmpdir(), 'cmem-test-'));
+  const cmemPath = join(home, '.claude', 'cmem');
+  let manager: import('../memory-manager.js').MemoryManager;
+
+  before(async () => {
+    mkdirSync(cmemPath, { recursive: true });
+    writeFileSync(join(cmemPath, 'config.json'), JSON.stringify({
+      embedding: { provider: 'hash', model: 'all-MiniLM-L6-v2-4bit', dimensions: 64, baseUrl: 'http://127.0.0.1:1' },
+      chunking: { maxTokens: 200, overlapTokens: 0, minChunkSize: 10 },
+      recall: { projectResults: 5, globalResults: 2, globalTypesInProject: [], distanceThreshold: 50, boostRecency: false, recencyHalfLifeDays: 30 },
+      capture: { autoSession: false, autoCommit: false, commitPatterns: [], minImportance: 3 },
+      sensitive: { patterns: [] },
+      gc: { maxAgeUnusedDays: 180, minConfidence: 0.3 },
+      dedup: { enabled: true, similarityThreshold: 0.05, preferLonger: true }
+    }));
+
+    // The memory paths are resolved from the home directory on import
+    process.env.HOME = home;
+    const { MemoryManager } = await import('../memory-manager.js');
+    manager = new MemoryManager();
+  });
+
+  after(() => {
+    manager?.close();
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  test('records and caches vectors under the hash model name', async () => {
+    await manager.remember({ content: 'Releases are tagged from the main branch only', project: 'global' });
+    await manager.recall('release tags');
+
+    const status = await manager.getIndexStatus();
+    assert.equal(status.configModel, HASH_EMBEDDING_MODEL);
+    assert.deepEqual(status.models.map(m => m.model), [HASH_EMBEDDING_MODEL]);
+    assert.equal(status.mismatch, null);
+    assert.equal(status.fallback, 0);
+
+    const db = new Database(join(cmemPath, 'memories.db'), { readonly: true });
+    try {
+      const models = db.prepare('SELECT DISTINCT model FROM embedding_cache').all() as Array<{ model: string }>;
+      assert.deepEqual(models.map(m => m.model), [HASH_EMBEDDING_MODEL]);
+    } finally {
+      db.close();
+    }
+  });
+});
@@ -0,0 +1,113 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseMarkdown, splitListItems, splitSentences } from '../markdown.js';
+
+describe('splitSentences', () => {
+  test('splits on terminal punctuation followed by a capital', () => {
+    assert.deepEqual(splitSentences('Run the tests. Then deploy! Did it work? Yes.'), [
+      'Run the tests.', 'Then deploy!', 'Did it work?', 'Yes.'
+    ]);
+  });
+
+  test('does not split after abbreviations and initials', () => {
+    assert.deepEqual(splitSentences('Use a bundler, e.g. Vite or Rollup. Ask Dr. Smith or J. Doe first.'), [
+      'Use a bundler, e.g. Vite or Rollup.', 'Ask Dr. Smith or J. Doe first.'
+    ]);
+  });
+
+  test('does not split French abbreviations', () => {
+    assert.deepEqual(splitSentences('Voir M. Dupont, c.-à-d. le responsable. Mme Martin valide ensuite.'), [
+      'Voir M. Dupont, c.-à-d. le responsable.', 'Mme Martin valide ensuite.'
+    ]);
+  });
+
+  test('does not split before a lowercase letter or a digit', () => {
+    assert.deepEqual(splitSentences('Upgrade to v1.2.3 first. See section 4. 2 steps remain.'), [
+      'Upgrade to v1.2.3 first.', 'See section 4. 2 steps remain.'
+    ]);
+    assert.deepEqual(splitSentences('Wait... then retry.'), ['Wait... then retry.']);
+  });
+
+  test('keeps closing quotes and brackets with their sentence', () => {
+    assert.deepEqual(splitSentences('He said "ship it." We did (twice.) Done.'), [
+      'He said "ship it."', 'We did (twice.)', 'Done.'
+    ]);
+  });
+
+  test('keeps a last sentence without punctuation', () => {
+    assert.deepEqual(splitSentences('First one. second part'), ['First one. second part']);
+    assert.deepEqual(splitSentences('First one. Second part'), ['First one.', 'Second part']);
+    assert.deepEqual(splitSentences(''), []);
+  });
+});
+
+describe('parseMarkdown', () => {
+  test('gives each block the breadcrumb of its headings', () => {
+    const blocks = parseMarkdown([
+      '# Guide',
+      'Intro.',
+      '## Install',
+      'Run npm install.',
+      '### Linux',
+      'Use apt.',
+      '## Usage',
+      'Run cmem.'
+    ].join('\n'));
+
+    assert.deepEqual(blocks.map(b => [b.text, b.headings]), [
+      ['Intro.', ['Guide']],
+      ['Run npm install.', ['Guide', 'Install']],
+      ['Use apt.', ['Guide', 'Install', 'Linux']],
+      ['Run cmem.', ['Guide', 'Usage']]
+    ]);
+  });
+
+  test('reads setext headings and ignores thematic breaks', () => {
+    const blocks = parseMarkdown('Guide\n=====\n\nIntro.\n\n---\n\nSetup\n-----\nSteps.');
+
+    assert.deepEqual(blocks.map(b => [b.text, b.headings]), [
+      ['Intro.', ['Guide']],
+      ['Steps.', ['Guide', 'Setup']]
+    ]);
+  });
+
+  test('keeps fenced code whole, headings inside included', () => {
+    const code = '```bash\n# not a heading\n\nnpm run build\n```';
+    const blocks = parseMarkdown(`## Build\n${code}\nAfter.`);
+
+    assert.deepEqual(blocks.map(b => b.type), ['code', 'paragraph']);
+    assert.equal(blocks[0].text, code);
+    assert.deepEqual(blocks[0].headings, ['Build']);
+  });
+
+  test('runs an unclosed fence to the end', () => {
+    const blocks = parseMarkdown('~~~\ncode\n\n# more');
+
+    assert.deepEqual(blocks.map(b => [b.type, b.text]), [['code', '~~~\ncode\n\n# more']]);
+  });
+
+  test('reads tables and lists as blocks', () => {
+    const table = '| Flag | Default |\n|------|---------|\n| --limit | 5 |';
+    const list = '- one\n  continued\n\n- two\n  ```\n  - not an item\n  ```\n1. three';
+    const blocks = parseMarkdown(`Options:\n${table}\n\n${list}\n\nAfter the list.`);
+
+    assert.deepEqual(blocks.map(b => [b.type, b.text]), [
+      ['paragraph', 'Options:'],
+      ['table', table],
+      ['list', list],
+      ['paragraph', 'After the list.']
+    ]);
+  });
+
+  test('normalizes line endings', () => {
+    assert.deepEqual(parseMarkdown('# Title\r\nLine one\r\nLine two'), [
+      { type: 'paragraph', text: 'Line one\nLine two', headings: ['Title'] }
+    ]);
+  });
+});
+
+describe('splitListItems', () => {
+  test('keeps nested items with their parent', () => {
+    assert.deepEqual(splitListItems('- one\n  - one.a\n- two\n\n- three'), ['- one\n  - one.a', '- two', '- three']);
+  });
+});
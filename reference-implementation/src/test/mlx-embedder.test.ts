@@ -0,0 +1,172 @@
+import { test, describe, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { ServerResponse } from 'http';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MLXEmbedder, MLXEmbedderConfig } from '../mlx-embedder.js';
+import { json, stall, stubServer } from './stub-server.js';
+
+interface EmbedRequest {
+  texts: string[];
+}
+
+const vector = (n: number) => [n, 0, 1];
+
+describe('MLXEmbedder', () => {
+  const server = stubServer();
+  const dir = mkdtempSync(join(tmpdir(), 'cmem-mlx-'));
+  const statePath = join(dir, 'embedder-state.json');
+  let baseUrl: string;
+  let requests: EmbedRequest[];
+
+  // One vector per text, [length, 0, 1]
+  const embedTexts = (body: EmbedRequest, res: ServerResponse) =>
+    json(res, 200, { embeddings: body.texts.map(t => vector(t.length)), dimensions: 3 });
+
+  const embedder = (config: Partial<MLXEmbedderConfig> = {}) => new MLXEmbedder({
+    baseUrl,
+    dimensions: 3,
+    retryDelayMs: 10,
+    ...config,
+    circuitBreaker: { statePath, ...config.circuitBreaker }
+  });
+
+  before(async () => { baseUrl = await server.start(); });
+  after(async () => {
+    await server.stop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+  beforeEach(() => {
+    requests = [];
+    rmSync(statePath, { force: true });
+  });
+
+  test('splits batches larger than maxBatchSize', async () => {
+    server.handle<EmbedRequest>((body, _req, res) => {
+      requests.push(body);
+      embedTexts(body, res);
+    });
+
+    const embeddings = await embedder({ maxBatchSize: 2 }).embedBatch(['a', 'bb', 'ccc', 'dddd', 'eeeee']);
+
+    assert.deepEqual(requests.map(r => r.texts), [['a', 'bb'], ['ccc', 'dddd'], ['eeeee']]);
+    assert.deepEqual(embeddings, [1, 2, 3, 4, 5].map(vector));
+  });
+
+  test('retries 5xx answers with backoff', async () => {
+    const times: number[] = [];
+    server.handle<EmbedRequest>((body, _req, res) => {
+      requests.push(body);
+      times.push(Date.now());
+      if (requests.length < 3) {
+        res.writeHead(503).end('loading model');
+      } else {
+        embedTexts(body, res);
+      }
+    });
+
+    assert.deepEqual(await embedder({ retries: 2, retryDelayMs: 50 }).embed('abc'), vector(3));
+    assert.equal(requests.length, 3);
+    // 50ms, then 100ms
+    assert.ok(times[1] - times[0] >= 45 && times[2] - times[1] >= 95);
+  });
+
+  test('gives up after the retries', async () => {
+    server.handle<EmbedRequest>((body, _req, res) => {
+      requests.push(body);
+      res.writeHead(500).end('out of memory');
+    });
+
+    await assert.rejects(embedder({ retries: 2 }).embed('a'), /MLX server error: 500 - out of memory/);
+    assert.equal(requests.length, 3);
+  });
+
+  test('does not retry 4xx answers', async () => {
+    server.handle<EmbedRequest>((body, _req, res) => {
+      requests.push(body);
+      res.writeHead(400).end('texts must be a list');
+    });
+
+    await assert.rejects(embedder({ retries: 2 }).embed('a'), /MLX server error: 400 - texts must be a list/);
+    assert.equal(requests.length, 1);
+    assert.equal(existsSync(statePath), false);
+  });
+
+  test('times out on a body that never ends, without retrying', async () => {
+    server.handle<EmbedRequest>((body, _req, res) => {
+      requests.push(body);
+      stall(res, '{"embeddings": [');
+    });
+
+    await assert.rejects(embedder({ timeoutMs: 200, retries: 2 }).embed('a'), /did not answer within 200ms/);
+    assert.equal(requests.length, 1);
+  });
+
+  test('rejects a wrong vector count or size', async () => {
+    server.handle((_body, _req, res) => json(res, 200, { embeddings: [vector(1)], dimensions: 3 }));
+    await assert.rejects(embedder().embedBatch(['a', 'b']), /MLX server returned 1 embeddings for 2 texts/);
+
+    server.handle((_body, _req, res) => json(res, 200, { embeddings: [[1, 2]], dimensions: 2 }));
+    await assert.rejects(embedder().embed('a'), /MLX server returned 2-dimensional embeddings, expected 3/);
+  });
+
+  test('skips the server once the circuit breaker opens', async () => {
+    server.handle<EmbedRequest>((body, _req, res) => {
+      requests.push(body);
+      res.writeHead(500).end();
+    });
+    const config = { retries: 0, circuitBreaker: { failureThreshold: 2, cooldownMs: 60000 } };
+
+    await assert.rejects(embedder(config).embed('a'), /MLX server error: 500/);
+    await assert.rejects(embedder(config).embed('a'), /MLX server error: 500/);
+    const state = JSON.parse(readFileSync(statePath, 'utf-8'));
+    assert.equal(state.baseUrl, baseUrl);
+    assert.equal(state.failures, 2);
+    assert.ok(state.openUntil > Date.now());
+
+    // Open: shared by new instances (other hook processes), no request made
+    await assert.rejects(embedder(config).embed('a'), /failed 2 times in a row, skipped until/);
+    assert.equal(await embedder(config).isAvailable(), false);
+    assert.equal(requests.length, 2);
+
+    // The state of another server does not apply
+    const other = new MLXEmbedder({ baseUrl: 'http://127.0.0.1:1', dimensions: 3, retries: 0, circuitBreaker: { statePath } });
+    await assert.rejects(other.embed('a'), /not available at/);
+  });
+
+  test('lets one call through after the cooldown', async () => {
+    server.handle<EmbedRequest>((body, _req, res) => {
+      requests.push(body);
+      res.writeHead(500).end();
+    });
+    const config = { retries: 0, circuitBreaker: { failureThreshold: 2, cooldownMs: 50 } };
+
+    await assert.rejects(embedder(config).embed('a'));
+    await assert.rejects(embedder(config).embed('a'));
+    await new Promise(resolve => setTimeout(resolve, 60));
+
+    // Half-open: a new failure reopens it at once
+    await assert.rejects(embedder(config).embed('a'), /MLX server error: 500/);
+    assert.equal(requests.length, 3);
+    await assert.rejects(embedder(config).embed('a'), /skipped until/);
+
+    // A success closes it
+    await new Promise(resolve => setTimeout(resolve, 60));
+    server.handle<EmbedRequest>((body, _req, res) => embedTexts(body, res));
+    assert.deepEqual(await embedder(config).embed('ab'), vector(2));
+    assert.deepEqual(JSON.parse(readFileSync(statePath, 'utf-8')), { baseUrl, failures: 0, openUntil: 0 });
+  });
+
+  test('is available when /health answers ok', async () => {
+    server.handle((_body, req, res) => req.url === '/health'
+      ? json(res, 200, { status: 'ok', model: 'all-MiniLM-L6-v2-4bit', dimensions: 3 })
+      : res.writeHead(404).end());
+
+    assert.equal(await embedder().isAvailable(), true);
+
+    server.handle((_body, _req, res) => json(res, 200, { status: 'loading' }));
+    assert.equal(await embedder().isAvailable(), false);
+    assert.equal(JSON.parse(readFileSync(statePath, 'utf-8')).failures, 1);
+  });
+});
@@ -0,0 +1,68 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { HashEmbedder } from '../embedders.js';
+import { SemanticChunker } from '../semantic-chunker.js';
+import { HeuristicTokenizer } from '../tokenizer.js';
+
+const config = { maxTokens: 30, overlapTokens: 0, minChunkSize: 5 };
+const embedder = new HashEmbedder({ dimensions: 64 });
+const tokenizer = new HeuristicTokenizer();
+
+const words = (text: string) => text.split(/\s+/).filter(Boolean);
+
+describe('SemanticChunker', () => {
+  const chunker = new SemanticChunker(config, texts => embedder.embedBatch(texts), tokenizer);
+
+  test('keeps short content in one chunk', async () => {
+    assert.deepEqual(await chunker.chunk('  Deploy from main.  '), [{ content: 'Deploy from main.', index: 0, total: 1 }]);
+  });
+
+  test('cuts between topics', async () => {
+    const content = [
+      'The database runs on Postgres. Postgres backups run nightly. Postgres replicas serve reads.',
+      'The frontend uses React. React components live in src/ui. React hooks fetch the data.'
+    ].join('\n\n');
+
+    const chunks = await chunker.chunk(content);
+
+    assert.ok(chunks.length >= 2);
+    assert.ok(chunks.every(c => tokenizer.countTokens(c.content) <= config.maxTokens));
+    assert.match(chunks[0].content, /^The database runs on Postgres\./);
+    assert.match(chunks[chunks.length - 1].content, /React hooks fetch the data\.$/);
+  });
+
+  test('cuts a sentence over maxTokens between words', async () => {
+    const sentence = Array.from({ length: 60 }, (_, i) => `step${i}`).join(' ') + '.';
+    const content = `Intro to the release process. ${sentence} Then tag the release.`;
+
+    for (const text of [sentence, content]) {
+      const chunks = await chunker.chunk(text);
+      assert.ok(chunks.length > 1);
+      assert.ok(chunks.every(c => tokenizer.countTokens(c.content) <= config.maxTokens), text);
+      assert.deepEqual(chunks.flatMap(c => words(c.content)), words(text));
+    }
+  });
+
+  test('cuts a word over maxTokens between characters', async () => {
+    const hash = 'a'.repeat(300);
+    const chunks = await chunker.chunk(`Checksum: ${hash}`);
+
+    assert.ok(chunks.every(c => tokenizer.countTokens(c.content) <= config.maxTokens));
+    assert.equal(chunks.map(c => c.content).join('').replace(/\s/g, ''), `Checksum:${hash}`);
+  });
+
+  test('embeds the sentences of several documents together', async () => {
+    const batches: number[] = [];
+    const batching = new SemanticChunker(config, texts => {
+      batches.push(texts.length);
+      return embedder.embedBatch(texts);
+    }, tokenizer);
+    const document = (topic: string) => Array.from({ length: 6 }, (_, i) => `${topic} fact number ${i} is recorded here.`).join(' ');
+
+    const [first, second] = await batching.chunkMany([document('Postgres'), document('React')], 8);
+
+    assert.deepEqual(batches, [8, 4]);
+    assert.deepEqual(first, await chunker.chunk(document('Postgres')));
+    assert.deepEqual(second, await chunker.chunk(document('React')));
+  });
+});
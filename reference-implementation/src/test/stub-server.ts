@@ -0,0 +1,48 @@
+/**
+ * Local HTTP server for the client tests: answers each request with the
+ * current handler, given the parsed JSON body (null without a body).
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+export type Handler<Body = unknown> = (body: Body, req: IncomingMessage, res: ServerResponse) => void;
+
+export interface StubServer {
+  start(): Promise<string>;  // Base URL
+  stop(): Promise<void>;
+  handle<Body = unknown>(next: Handler<Body>): void;
+}
+
+export function stubServer(): StubServer {
+  let handler: Handler = (_body, _req, res) => res.writeHead(404).end();
+  const server: Server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => handler(chunks.length ? JSON.parse(Buffer.concat(chunks).toString()) : null, req, res));
+  });
+
+  return {
+    start: () => new Promise<string>(resolve => {
+      server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`));
+    }),
+    stop: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+    // The tests declare the request shape they assert on
+    handle: <Body>(next: Handler<Body>) => { handler = next as Handler; }
+  };
+}
+
+export function json(res: ServerResponse, status: number, data: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(data));
+}
+
+/**
+ * Headers, then a body that never ends.
+ */
+export function stall(res: ServerResponse, partialBody: string): void {
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.write(partialBody);
+}
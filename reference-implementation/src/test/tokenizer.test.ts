@@ -0,0 +1,107 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BPETokenizer, loadTokenizer, WordPieceTokenizer } from '../tokenizer.js';
+
+const VOCAB = ['[UNK]', 'un', '##aff', '##able', 'play', '##ing', ',', 'eclair'];
+
+// "hello" and " world" (Ġ is the space byte) merge into one token each
+const MERGES = ['h e', 'l l', 'he ll', 'hell o', 'Ġ w', 'o r', 'Ġw or', 'l d', 'Ġwor ld'];
+
+describe('WordPieceTokenizer', () => {
+  const tokenizer = new WordPieceTokenizer(VOCAB);
+
+  test('splits words into the longest vocabulary pieces', () => {
+    assert.equal(tokenizer.countTokens('unaffable'), 3);      // un ##aff ##able
+    assert.equal(tokenizer.countTokens('Playing, unaffable!'), 7);  // play ##ing , un ##aff ##able !
+  });
+
+  test('counts a word without matching pieces as one unknown token', () => {
+    assert.equal(tokenizer.countTokens('xyz'), 1);
+    assert.equal(tokenizer.countTokens('unxyz'), 1);
+  });
+
+  test('splits CJK characters and strips accents when uncased', () => {
+    assert.equal(tokenizer.countTokens('日本語'), 3);
+    assert.equal(tokenizer.countTokens('Éclair'), 1);
+  });
+
+  test('keeps case and accents when cased', () => {
+    const cased = new WordPieceTokenizer(VOCAB, { lowercase: false });
+
+    assert.equal(cased.countTokens('Playing'), 1);
+    assert.equal(cased.countTokens('playing'), 2);
+  });
+
+  test('counts words longer than maxInputCharsPerWord as one token', () => {
+    assert.equal(new WordPieceTokenizer(VOCAB, { maxInputCharsPerWord: 5 }).countTokens('unaffable'), 1);
+  });
+});
+
+describe('BPETokenizer', () => {
+  const tokenizer = new BPETokenizer(MERGES);
+
+  test('merges byte pairs by rank', () => {
+    assert.equal(tokenizer.countTokens('hello world'), 2);
+    assert.equal(tokenizer.countTokens('hello world!'), 3);
+  });
+
+  test('counts unmerged bytes one by one', () => {
+    assert.equal(tokenizer.countTokens('xyz'), 3);
+    assert.equal(tokenizer.countTokens('héllo'), 5);  // h, é as two bytes, ll, o
+  });
+
+  test('counts every byte without merges', () => {
+    assert.equal(new BPETokenizer([]).countTokens('hello world'), 11);
+  });
+});
+
+describe('loadTokenizer', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'cmem-tokenizer-'));
+
+  before(() => {
+    writeFileSync(join(dir, 'vocab.txt'), VOCAB.join('\r\n') + '\n');
+    writeFileSync(join(dir, 'wordpiece.json'), JSON.stringify({
+      normalizer: { type: 'BertNormalizer', lowercase: false },
+      pre_tokenizer: { type: 'BertPreTokenizer' },
+      model: { type: 'WordPiece', vocab: Object.fromEntries(VOCAB.map((token, i) => [token, i])) }
+    }));
+    writeFileSync(join(dir, 'bpe.json'), JSON.stringify({
+      pre_tokenizer: { type: 'ByteLevel' },
+      model: { type: 'BPE', vocab: {}, merges: MERGES.map(m => m.split(' ')) }
+    }));
+    writeFileSync(join(dir, 'unigram.json'), JSON.stringify({
+      pre_tokenizer: { type: 'Metaspace' },
+      model: { type: 'Unigram', vocab: {} }
+    }));
+  });
+
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  test('reads a vocab.txt as an uncased WordPiece vocabulary', () => {
+    const tokenizer = loadTokenizer(join(dir, 'vocab.txt'));
+
+    assert.equal(tokenizer.name, 'wordpiece');
+    assert.equal(tokenizer.countTokens('Unaffable'), 3);
+  });
+
+  test('reads a WordPiece tokenizer.json with its normalizer', () => {
+    const tokenizer = loadTokenizer(join(dir, 'wordpiece.json'));
+
+    assert.equal(tokenizer.name, 'wordpiece');
+    assert.equal(tokenizer.countTokens('Unaffable'), 1);
+  });
+
+  test('reads a byte-level BPE tokenizer.json with pair merges', () => {
+    const tokenizer = loadTokenizer(join(dir, 'bpe.json'));
+
+    assert.equal(tokenizer.name, 'bpe');
+    assert.equal(tokenizer.countTokens('hello world'), 2);
+  });
+
+  test('rejects other tokenizer models', () => {
+    assert.throws(() => loadTokenizer(join(dir, 'unigram.json')), /Unsupported tokenizer .*: Unigram with Metaspace/);
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Tokenizers - count tokens the way the embedding model does, so that
+ * chunks fit its window instead of being truncated by the server.
+ *
+ * WordPieceTokenizer: BERT-style models (MiniLM, BGE, E5), from vocab.txt or tokenizer.json.
+ * BPETokenizer:       byte-level BPE models (GPT-2 style), from tokenizer.json.
+ * HeuristicTokenizer: 1 token ≈ 4 characters, when no tokenizer file is found.
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { Config } from './types.js';
+
+const HF_HUB_PATH = join(homedir(), '.cache', 'huggingface', 'hub');
+
+export interface Tokenizer {
+  readonly name: string;            // heuristic | wordpiece | bpe
+  readonly source: string | null;   // File the vocabulary was loaded from
+  countTokens(text: string): number;  // Without special tokens ([CLS], [SEP], ...)
+}
+
+export class HeuristicTokenizer implements Tokenizer {
+  readonly name = 'heuristic';
+  readonly source = null;
+
+  countTokens(text: string): number {
+    // Approximation: 1 token ≈ 4 characters
+    return Math.ceil(text.length / 4);
+  }
+}
+
+export interface WordPieceOptions {
+  lowercase?: boolean;               // Uncased models; also strips accents (default: true)
+  continuingSubwordPrefix?: string;  // Default: ##
+  maxInputCharsPerWord?: number;     // Longer words are one unknown token (default: 100)
+}
+
+function isPunctuation(char: string): boolean {
+  const code = char.charCodeAt(0);
+  // BERT counts all non-alphanumeric ASCII as punctuation, e.g. $ and ^
+  return (code >= 33 && code <= 47) || (code >= 58 && code <= 64) || (code >= 91 && code <= 96)
+    || (code >= 123 && code <= 126) || /\p{P}/u.test(char);
+}
+
+function isCjk(code: number): boolean {
+  return (code >= 0x4e00 && code <= 0x9fff) || (code >= 0x3400 && code <= 0x4dbf)
+    || (code >= 0x20000 && code <= 0x2a6df) || (code >= 0xf900 && code <= 0xfaff)
+    || (code >= 0x2f800 && code <= 0x2fa1f);
+}
+
+/**
+ * BERT tokenization: split on whitespace, punctuation and CJK characters,
+ * then greedy longest-match-first over the vocabulary.
+ */
+export class WordPieceTokenizer implements Tokenizer {
+  readonly name = 'wordpiece';
+  readonly source: string | null;
+  private vocab: Set<string>;
+  private lowercase: boolean;
+  private prefix: string;
+  private maxInputCharsPerWord: number;
+  private wordCounts = new Map<string, number>();
+
+  constructor(vocab: Iterable<string>, options: WordPieceOptions = {}, source: string | null = null) {
+    this.vocab = new Set(vocab);
+    this.lowercase = options.lowercase ?? true;
+    this.prefix = options.continuingSubwordPrefix ?? '##';
+    this.maxInputCharsPerWord = options.maxInputCharsPerWord ?? 100;
+    this.source = source;
+  }
+
+  countTokens(text: string): number {
+    let count = 0;
+    for (const word of this.basicTokenize(text)) {
+      let tokens = this.wordCounts.get(word);
+      if (tokens === undefined) {
+        tokens = this.countWordPieces(word);
+        this.wordCounts.set(word, tokens);
+      }
+      count += tokens;
+    }
+    return count;
+  }
+
+  private basicTokenize(text: string): string[] {
+    let normalized = text;
+    if (this.lowercase) {
+      normalized = normalized.toLowerCase().normalize('NFD').replace(/\p{Mn}/gu, '');
+    }
+
+    const words: string[] = [];
+    let current = '';
+    const flush = () => {
+      if (current) words.push(current);
+      current = '';
+    };
+
+    for (const char of normalized) {
+      const code = char.codePointAt(0)!;
+      if (/\s/.test(char)) {
+        flush();
+      } else if (code === 0 || code === 0xfffd || /\p{Cc}/u.test(char)) {
+        continue;
+      } else if (isPunctuation(char) || isCjk(code)) {
+        flush();
+        words.push(char);
+      } else {
+        current += char;
+      }
+    }
+    flush();
+    return words;
+  }
+
+  private countWordPieces(word: string): number {
+    const chars = [...word];
+    if (chars.length > this.maxInputCharsPerWord) return 1;
+
+    let count = 0;
+    let start = 0;
+    while (start < chars.length) {
+      let end = chars.length;
+      let found = false;
+      while (start < end) {
+        const piece = (start > 0 ? this.prefix : '') + chars.slice(start, end).join('');
+        if (this.vocab.has(piece)) {
+          found = true;
+          break;
+        }
+        end--;
+      }
+      // No piece matches: the whole word is one unknown token
+      if (!found) return 1;
+      count++;
+      start = end;
+    }
+    return count;
+  }
+}
+
+// GPT-2 pre-tokenization
+const BYTE_LEVEL_SPLIT = /'s|'t|'re|'ve|'m|'ll|'d| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+(?!\S)|\s+/gu;
+
+/**
+ * GPT-2's reversible byte → printable character mapping.
+ */
+function bytesToUnicode(): string[] {
+  const printable: number[] = [];
+  for (let b = 33; b <= 126; b++) printable.push(b);
+  for (let b = 161; b <= 172; b++) printable.push(b);
+  for (let b = 174; b <= 255; b++) printable.push(b);
+
+  const mapping: string[] = new Array(256);
+  let extra = 0;
+  for (let b = 0; b < 256; b++) {
+    mapping[b] = printable.includes(b) ? String.fromCharCode(b) : String.fromCharCode(256 + extra++);
+  }
+  return mapping;
+}
+
+/**
+ * Byte-level BPE: each pre-token's UTF-8 bytes, merged pairwise by rank.
+ */
+export class BPETokenizer implements Tokenizer {
+  readonly name = 'bpe';
+  readonly source: string | null;
+  private ranks: Map<string, number>;
+  private byteChars = bytesToUnicode();
+  private wordCounts = new Map<string, number>();
+
+  /**
+   * merges: "a b" pairs, highest priority first.
+   */
+  constructor(merges: string[], source: string | null = null) {
+    this.ranks = new Map(merges.map((merge, rank) => [merge, rank]));
+    this.source = source;
+  }
+
+  countTokens(text: string): number {
+    let count = 0;
+    for (const word of text.match(BYTE_LEVEL_SPLIT) ?? []) {
+      let tokens = this.wordCounts.get(word);
+      if (tokens === undefined) {
+        tokens = this.countMerged(word);
+        this.wordCounts.set(word, tokens);
+      }
+      count += tokens;
+    }
+    return count;
+  }
+
+  private countMerged(word: string): number {
+    let symbols = [...Buffer.from(word, 'utf-8')].map(b => this.byteChars[b]);
+
+    while (symbols.length > 1) {
+      let best = -1;
+      let bestRank = Infinity;
+      for (let i = 0; i < symbols.length - 1; i++) {
+        const rank = this.ranks.get(`${symbols[i]} ${symbols[i + 1]}`);
+        if (rank !== undefined && rank < bestRank) {
+          bestRank = rank;
+          best = i;
+        }
+      }
+      if (best === -1) break;
+
+      const [left, right] = [symbols[best], symbols[best + 1]];
+      const merged: string[] = [];
+      for (let i = 0; i < symbols.length; i++) {
+        if (i < symbols.length - 1 && symbols[i] === left && symbols[i + 1] === right) {
+          merged.push(left + right);
+          i++;
+        } else {
+          merged.push(symbols[i]);
+        }
+      }
+      symbols = merged;
+    }
+    return symbols.length;
+  }
+}
+
+interface TokenizerJson {
+  normalizer?: { type: string; lowercase?: boolean } | null;
+  pre_tokenizer?: { type: string } | null;
+  model: {
+    type: string;
+    vocab: Record<string, number>;
+    merges?: Array<string | [string, string]>;
+    continuing_subword_prefix?: string;
+    max_input_chars_per_word?: number;
+  };
+}
+
+/**
+ * Load a vocab.txt (WordPiece, one token per line) or a Hugging Face
+ * tokenizer.json (WordPiece, or BPE with byte-level pre-tokenization).
+ */
+export function loadTokenizer(path: string): Tokenizer {
+  const text = readFileSync(path, 'utf-8');
+
+  if (!path.endsWith('.json')) {
+    return new WordPieceTokenizer(text.split('\n').map(line => line.replace(/\r$/, '')).filter(Boolean), {}, path);
+  }
+
+  const json = JSON.parse(text) as TokenizerJson;
+  const { model } = json;
+
+  if (model.type === 'WordPiece') {
+    return new WordPieceTokenizer(Object.keys(model.vocab), {
+      lowercase: json.normalizer?.lowercase ?? true,
+      continuingSubwordPrefix: model.continuing_subword_prefix,
+      maxInputCharsPerWord: model.max_input_chars_per_word
+    }, path);
+  }
+
+  if (model.type === 'BPE' && json.pre_tokenizer?.type === 'ByteLevel') {
+    const merges = (model.merges ?? []).map(m => Array.isArray(m) ? m.join(' ') : m);
+    return new BPETokenizer(merges, path);
+  }
+
+  throw new Error(`Unsupported tokenizer in ${path}: ${model.type}${json.pre_tokenizer ? ` with ${json.pre_tokenizer.type}` : ''} (supported: WordPiece, byte-level BPE)`);
+}
+
+/**
+ * tokenizer.json or vocab.txt of the embedding model in the Hugging Face
+ * cache, where the MLX server downloads it ("models--<org>--<model>").
+ */
+export function findModelTokenizer(model: string): string | null {
+  if (!existsSync(HF_HUB_PATH)) return null;
+
+  const name = model.split('/').pop()!;
+  for (const repo of readdirSync(HF_HUB_PATH)) {
+    if (!repo.startsWith('models--') || !repo.endsWith(`--${name}`)) continue;
+
+    const snapshots = join(HF_HUB_PATH, repo, 'snapshots');
+    if (!existsSync(snapshots)) continue;
+    for (const snapshot of readdirSync(snapshots)) {
+      for (const file of ['tokenizer.json', 'vocab.txt']) {
+        const path = join(snapshots, snapshot, file);
+        if (existsSync(path)) return path;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * The chunker's tokenizer: chunking.tokenizerPath, else the embedding
+ * model's own from the Hugging Face cache, else the heuristic (also when
+ * the file can't be read or isn't supported).
+ */
+export function createTokenizer(chunking: Config['chunking'], embeddingModel: string): Tokenizer {
+  if (chunking.tokenizer === 'heuristic') {
+    return new HeuristicTokenizer();
+  }
+
+  const path = chunking.tokenizerPath?.replace(/^~/, homedir()) ?? findModelTokenizer(embeddingModel);
+  if (!path) {
+    return new HeuristicTokenizer();
+  }
+
+  try {
+    return loadTokenizer(path);
+  } catch (error) {
+    console.warn(`Warning: tokenizer not loaded, estimating 4 characters per token (${error instanceof Error ? error.message : error})`);
+    return new HeuristicTokenizer();
+  }
+}
@@ -26,9 +26,42 @@ export interface Memory {
   expiresAt?: number;
   supersedes?: number;
   isObsolete: boolean;
+  isConflicting: boolean;  // Flagged as contradicting another active memory
+  pinned: boolean;         // Always injected by the recall hook
+  groupId?: number;        // Chunks of one document share it (ID of the first chunk)
+  chunkIndex?: number;     // 0-based position in the group
+  chunkTotal?: number;
+  headings?: string[];     // Heading breadcrumb of the chunk's section (markdown chunking)
   tags: string[];
 }
 
+export type MemoryAction =
+  | 'create'
+  | 'update'
+  | 'merge'        // remember() dedup overwrote an existing memory
+  | 'obsolete'
+  | 'consolidate'
+  | 'revert'
+  | 'pin'
+  | 'unpin'
+  | 'delete';
+
+/**
+ * One row of memory_history. Versions are numbered per memory, starting at 1.
+ * Fields are the memories columns other than content and access stats.
+ */
+export interface MemoryHistoryEntry {
+  memoryId: number;
+  version: number;
+  action: MemoryAction;
+  actor: string;  // 'cli', 'api', 'hook:<name>'
+  oldContent: string | null;
+  newContent: string | null;
+  oldFields: Record<string, unknown> | null;
+  newFields: Record<string, unknown> | null;
+  createdAt: number;
+}
+
 export interface MemoryInput {
   content: string;
   type?: MemoryType;
@@ -42,57 +75,343 @@ export interface MemoryInput {
   expiresAt?: number;
   supersedes?: number;
   skipDedup?: boolean;
+  onContradiction?: ContradictionAction;  // Overrides config.contradiction.action
+  headings?: string[];  // Breadcrumb root of every chunk, before its own headings (ingest: the file path)
+}
+
+/**
+ * What remember() does with an existing decision/preference the new one contradicts:
+ * supersede marks it obsolete, flag marks both as conflicting, ignore keeps both as-is.
+ */
+export type ContradictionAction = 'supersede' | 'flag' | 'ignore';
+
+export interface Contradiction {
+  memory: Memory;        // The existing memory
+  distance: number;
+  reason: string;
+  judge: string;         // 'heuristic' or 'llm'
+}
+
+export interface ContradictionOutcome extends Contradiction {
+  action: ContradictionAction;
+}
+
+export interface RememberReport {
+  ids: number[];
+  contradictions: ContradictionOutcome[];
+}
+
+/**
+ * What happened to a chunk: stored, merged into a near-duplicate (content
+ * replaced), or dropped as a duplicate of a memory left as is.
+ */
+export type RememberOutcome = 'inserted' | 'merged' | 'skipped';
+
+export interface RememberManyResult extends RememberReport {
+  outcomes: RememberOutcome[];  // Per chunk, aligned with ids
+}
+
+/**
+ * Two active memories linked as contradicting each other, not yet resolved.
+ */
+export interface MemoryConflict {
+  a: Memory;
+  b: Memory;
+  since: number;
 }
 
+export type MemoryRelation = 'relates-to' | 'contradicts' | 'depends-on' | 'derived-from';
+
+export const MEMORY_RELATIONS: MemoryRelation[] = ['relates-to', 'contradicts', 'depends-on', 'derived-from'];
+
+/**
+ * Directed edge: source <relation> target, e.g. decision depends-on fact.
+ */
+export interface MemoryLink {
+  sourceId: number;
+  targetId: number;
+  relation: MemoryRelation;
+  createdAt: number;
+}
+
+export interface MemoryGraph {
+  root: number;
+  nodes: Memory[];
+  links: MemoryLink[];
+}
+
+/**
+ * Quota a recall hit was taken from. In a project: 'project' (projectResults)
+ * or 'global' (globalResults, globalTypesInProject). Otherwise 'all'.
+ */
+export type RecallBucket = 'project' | 'global' | 'all' | 'linked';
+
+/**
+ * What recall returns for a chunk hit: the chunk alone, the chunk with the
+ * one before and after it, or the whole reassembled document.
+ */
+export type ChunkExpansion = 'none' | 'neighbors' | 'document';
+
 export interface RecallResult {
   memory: Memory;
   distance: number;
   score: number;
   source: string | null;  // project name or null for global
+  bucket: RecallBucket;
+  linkedFrom?: { memoryId: number; relation: MemoryRelation };  // Set when pulled in via includeLinked
+  chunks?: Memory[];         // With expandChunks: the group chunks returned, in order
+  expandedContent?: string;  // With expandChunks: their content joined, overlaps removed
+  explanation?: ScoreExplanation;  // Set with explain (not for linked results)
 }
 
+/**
+ * Multipliers making up a recall score: score is their product.
+ */
+export interface ScoreFactors {
+  relevance: number;     // Similarity (semantic) or normalized RRF, ^profile.similarity
+  recency: number;
+  importance: number;
+  access: number;
+  confidence: number;
+  type: number;
+  projectBoost: number;  // projectBoost, globalPreferenceBoost or 1
+}
+
+export interface ScoreExplanation {
+  distance: number;
+  semanticRank: number | null;  // 0 = nearest, null if not a vector candidate
+  lexicalRank: number | null;   // 0 = best BM25, null if not a keyword candidate
+  threshold: 'within' | 'keyword-match' | 'exceeded';  // vs recall.distanceThreshold
+  factors: ScoreFactors;
+  redundancy?: number;  // With diversity: max cosine similarity to the hits ranked above
+}
+
+/**
+ * A candidate that was found but not returned: threshold (too far, no
+ * keyword match), quota (bucket full), limit, expanded (already part of a
+ * better hit's expandChunks).
+ */
+export interface DroppedCandidate {
+  memory: Memory;
+  distance: number;
+  score: number;
+  bucket: RecallBucket;
+  reason: 'threshold' | 'quota' | 'limit' | 'expanded';
+  explanation?: ScoreExplanation;
+}
+
+export interface RecallExplanation {
+  results: RecallResult[];
+  dropped: DroppedCandidate[];
+}
+
+export type RecallMode = 'semantic' | 'lexical' | 'hybrid';
+
 export interface RecallOptions {
   limit?: number;
+  mode?: RecallMode;
   type?: MemoryType;
+  types?: MemoryType[];      // Any of these types
   minImportance?: number;
+  minConfidence?: number;
+  tags?: string[];
+  tagMatch?: 'any' | 'all';  // Default: any
+  category?: string;
+  source?: MemorySource;
+  project?: string;          // Only this project's memories
+  projects?: string[];       // Only these projects' memories
+  globalOnly?: boolean;      // Only global memories (project IS NULL)
+  createdAfter?: number;     // Unix timestamp, inclusive
+  createdBefore?: number;    // Unix timestamp, exclusive
   includeObsolete?: boolean;
+  includeLinked?: boolean;  // Append first-degree linked memories of the hits
+  expandChunks?: ChunkExpansion;  // Default: recall.expandChunks
+  profile?: string;         // Scoring profile (default: recall.scoring.defaultProfile)
+  diversity?: number;       // MMR lambda, 0-1: 1 = relevance only (default: recall.diversity)
+  explain?: boolean;        // Attach a ScoreExplanation to each result
+  trackAccess?: boolean;    // Update access stats and access_log (default: true)
+  excludePinned?: boolean;  // Leave out pinned memories (injected separately)
+}
+
+/**
+ * One row of access_log: a memory returned by recall.
+ */
+export interface AccessLogEntry {
+  memoryId: number;
+  actor: string;  // 'cli', 'api', 'hook:<name>'
+  accessedAt: number;
+}
+
+/**
+ * Weights of the recall score factors. score =
+ *   relevance^similarity
+ *   × (1 - recency + recency × decay)          decay = exp(-age / recencyHalfLifeDays)
+ *   × (1 - importance × (5 - memory.importance))
+ *   × (1 + access × min(accessCount, accessCap))
+ *   × confidence^confidence
+ *   × projectBoost (current project) or globalPreferenceBoost (global preference)
+ *   × typeWeights[type]
+ */
+export interface ScoringProfile {
+  similarity: number;
+  recency: number;
+  importance: number;
+  access: number;
+  accessCap: number;
+  confidence: number;
+  projectBoost: number;
+  globalPreferenceBoost: number;
+  typeWeights: Partial<Record<MemoryType, number>>;
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  applied: Array<{ version: number; description: string }>;
+  backupPath: string | null;
+  dryRun: boolean;
+}
+
+/**
+ * Embedding model and size of the stored vectors compared to the config.
+ * While they differ, remember/update refuse to write (run reindex).
+ */
+export interface IndexStatus {
+  configModel: string;
+  configDimensions: number;
+  indexDimensions: number | null;  // Size of the vec_memories column
+  models: Array<{ model: string | null; dimensions: number | null; count: number }>;
+  mismatch: string | null;         // Why writes are refused, null when in sync
+  fallback: number;                // Memories embedded by the offline fallback, to re-embed
+  pendingReindex: { model: string; dimensions: number; done: number; total: number } | null;  // Interrupted run
+}
+
+export interface EmbeddingCacheStats {
+  entries: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+  hitRate: number | null;  // null before any lookup
+  since: number;           // Counters reset (epoch seconds)
+}
+
+export interface ReindexReport {
+  model: string;
+  dimensions: number;
+  total: number;
+  embedded: number;  // Embedded by this run
+  resumed: number;   // Already embedded by an interrupted run
 }
 
 export interface Chunk {
   content: string;
   index: number;
   total: number;
+  headings?: string[];  // Markdown strategy: breadcrumb of the chunk's section
+}
+
+/**
+ * How content over maxTokens is cut. paragraph: packs blank-line separated
+ * paragraphs. markdown: packs Markdown blocks (code, tables, lists kept whole
+ * where possible), headings as chunk metadata. semantic (SemanticChunker):
+ * cuts where the similarity of adjacent sentences drops.
+ */
+export type ChunkingStrategy = 'paragraph' | 'markdown' | 'semantic';
+
+export const CHUNKING_STRATEGIES: ChunkingStrategy[] = ['paragraph', 'markdown', 'semantic'];
+
+/**
+ * One strategy's chunks of a set of documents (compareChunkingStrategies).
+ * Cohesion: mean similarity of each chunk's sentences to the chunk.
+ * Separation: mean dissimilarity (1 - similarity) of adjacent chunks.
+ */
+export interface ChunkingReport {
+  strategy: ChunkingStrategy;
+  documents: number;
+  chunks: number;
+  avgTokens: number;
+  maxTokens: number;
+  overLimit: number;           // Chunks over chunking.maxTokens (a single long sentence, line or row)
+  cohesion: number | null;     // Null when no chunk has two sentences
+  separation: number | null;   // Null when no document has two chunks
 }
 
 export interface ProjectInfo {
   paths: string[];
+  remotes?: string[];       // Normalized origin URLs of the paths' git repos (unset: not looked up yet)
+  remotesCheckedAt?: number; // Last lookup of remotes; an empty list is looked up again a day later
   description: string;
   createdAt: number;
+  autoRegistered?: boolean; // Created by a hook (projects.autoRegister)
 }
 
 export interface ProjectRegistry {
   projects: Record<string, ProjectInfo>;
 }
 
+export type EmbeddingProvider = 'mlx' | 'ollama' | 'openai' | 'command' | 'hash';
+
 export interface Config {
   embedding: {
-    provider: 'mlx';
-    model: string;
+    provider: EmbeddingProvider;
+    model: string;       // Sent to ollama/openai; recorded with each vector
     dimensions: number;
-    baseUrl: string;
+    baseUrl: string;     // MLX server
+    timeoutMs?: number;     // MLX request timeout (default: 10000)
+    retries?: number;       // MLX retries on 5xx and connection errors (default: 2)
+    maxBatchSize?: number;  // Texts per MLX request (default: 32)
+    circuitBreaker?: {
+      failureThreshold?: number;  // Consecutive failures before skipping the server (default: 3)
+      cooldownMs?: number;        // How long it is skipped (default: 60000)
+    };
+    cache?: {
+      enabled?: boolean;     // Default: true
+      maxEntries?: number;   // Least recently used evicted past this (default: 10000)
+    };
+    fallback?: 'none' | 'hash';  // Offline embedder used while the provider is down (default: none)
+    ollama?: {
+      baseUrl: string;   // Default: http://127.0.0.1:11434
+      timeoutMs?: number;
+    };
+    openai?: {
+      baseUrl: string;   // With the /v1 prefix
+      apiKeyEnv?: string;  // Env variable holding the key (default: OPENAI_API_KEY)
+      timeoutMs?: number;
+    };
+    command?: {
+      command: string;   // Reads {"texts": [...]} on stdin, writes {"embeddings": [[...]]}
+      args?: string[];
+      timeoutMs?: number;
+    };
   };
   chunking: {
     maxTokens: number;
     overlapTokens: number;
     minChunkSize: number;
+    strategy?: ChunkingStrategy;       // Default: paragraph
+    semantic?: {
+      breakpointPercentile?: number;   // Adjacent similarity below this percentile cuts (default: 10)
+    };
+    tokenizer?: 'auto' | 'heuristic';  // auto: the embedding model's tokenizer when found (default)
+    tokenizerPath?: string;            // tokenizer.json or vocab.txt, instead of the Hugging Face cache
   };
   recall: {
     projectResults: number;
     globalResults: number;
     globalTypesInProject: MemoryType[];
     distanceThreshold: number;
+    mode?: RecallMode;
+    includeLinked?: boolean;
+    expandChunks?: ChunkExpansion;
+    diversity?: number;  // MMR lambda, 0-1 (unset or 1: no re-ranking)
     boostRecency: boolean;
     recencyHalfLifeDays: number;
+    pinnedBudgetTokens?: number;  // Max size of the pinned section in the recall hook
+    injectionBudgetTokens?: number;  // Max size of the recalled section in the recall hook
+    scoring?: {
+      defaultProfile?: string;
+      profiles?: Record<string, Partial<ScoringProfile>>;
+    };
   };
   capture: {
     autoSession: boolean;
@@ -112,4 +431,20 @@ export interface Config {
     maxAgeUnusedDays: number;
     minConfidence: number;
   };
+  contradiction?: {
+    enabled: boolean;
+    maxDistance: number;
+    judge: 'heuristic' | 'llm';
+    action: 'supersede' | 'flag' | 'prompt';  // prompt: CLI asks, elsewhere flag
+    budgetMs?: number;  // Total judging time per remember; past it the heuristics answer (default: 15000)
+    llm?: {
+      baseUrl: string;
+      model: string;
+      timeoutMs?: number;
+    };
+  };
+  projects?: {
+    gitDetection?: boolean;  // Outside registered paths, match by git root and origin remote (default: false)
+    autoRegister?: boolean;  // Hooks register an unregistered git repo, named after its root (default: false)
+  };
 }